@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE `Comment` ADD COLUMN     `parentId` VARCHAR(191),
+    ADD COLUMN     `deletedAt` DATETIME(3);
+
+-- AddForeignKey
+ALTER TABLE `Comment` ADD FOREIGN KEY (`parentId`) REFERENCES `Comment`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+/*
+  Warnings:
+
+  - A unique constraint covering the columns `[userId,postId]` on the table `Reaction` will be added. If there are existing duplicate values, this will fail.
+  - A unique constraint covering the columns `[userId,commentId]` on the table `Reaction` will be added. If there are existing duplicate values, this will fail.
+
+*/
+-- AlterTable
+ALTER TABLE `Reaction` ADD COLUMN     `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    ADD COLUMN     `postId` VARCHAR(191),
+    ADD COLUMN     `commentId` VARCHAR(191);
+
+-- CreateIndex
+CREATE UNIQUE INDEX `Reaction.userId_postId_unique` ON `Reaction`(`userId`, `postId`);
+
+-- CreateIndex
+CREATE UNIQUE INDEX `Reaction.userId_commentId_unique` ON `Reaction`(`userId`, `commentId`);
+
+-- AddForeignKey
+ALTER TABLE `Reaction` ADD FOREIGN KEY (`postId`) REFERENCES `Post`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Reaction` ADD FOREIGN KEY (`commentId`) REFERENCES `Comment`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
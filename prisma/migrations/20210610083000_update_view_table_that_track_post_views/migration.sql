@@ -0,0 +1,27 @@
+/*
+  Warnings:
+
+  - You are about to drop the `_CommentToView` table. If the table is not empty, all the data it contains will be lost.
+  - You are about to drop the `_PostToView` table. If the table is not empty, all the data it contains will be lost.
+
+*/
+-- DropTable
+DROP TABLE `_CommentToView`;
+
+-- DropTable
+DROP TABLE `_PostToView`;
+
+-- AlterTable
+ALTER TABLE `View` ADD COLUMN     `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    ADD COLUMN     `visitor` VARCHAR(64),
+    ADD COLUMN     `postId` VARCHAR(191),
+    ADD COLUMN     `commentId` VARCHAR(191);
+
+-- CreateIndex
+CREATE INDEX `View.postId_createdAt_index` ON `View`(`postId`, `createdAt`);
+
+-- AddForeignKey
+ALTER TABLE `View` ADD FOREIGN KEY (`postId`) REFERENCES `Post`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `View` ADD FOREIGN KEY (`commentId`) REFERENCES `Comment`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
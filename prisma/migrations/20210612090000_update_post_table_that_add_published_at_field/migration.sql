@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `Post` ADD COLUMN     `publishedAt` DATETIME(3);
+
+-- Backfill
+UPDATE `Post` SET `publishedAt` = `createdAt` WHERE `published` = true;
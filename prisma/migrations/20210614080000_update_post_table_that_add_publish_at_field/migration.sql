@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `Post` ADD COLUMN     `publishAt` DATETIME(3);
+
+-- CreateIndex
+CREATE INDEX `Post.published_publishAt_index` ON `Post`(`published`, `publishAt`);
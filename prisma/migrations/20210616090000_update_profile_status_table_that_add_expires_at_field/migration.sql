@@ -0,0 +1,13 @@
+/*
+  Warnings:
+
+  - The `clearInterval` column on the `ProfileStatus` table would be dropped and recreated. This will lead to data loss if there is data in the column.
+
+*/
+-- AlterTable
+ALTER TABLE `ProfileStatus` DROP COLUMN `clearInterval`,
+    ADD COLUMN     `clearInterval` ENUM('THIRTY_MINUTES', 'FOUR_HOURS', 'TODAY', 'THIS_WEEK', 'NEVER') NOT NULL DEFAULT 'NEVER',
+    ADD COLUMN     `expiresAt` DATETIME(3);
+
+-- CreateIndex
+CREATE INDEX `ProfileStatus.expiresAt_index` ON `ProfileStatus`(`expiresAt`);
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE `User` ADD COLUMN     `tokensRevokedAt` DATETIME(3);
+
+-- CreateTable
+CREATE TABLE `RefreshToken` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `tokenHash` VARCHAR(64) NOT NULL,
+    `family` VARCHAR(32) NOT NULL,
+    `remembers` BOOLEAN NOT NULL DEFAULT false,
+    `expiresAt` DATETIME(3) NOT NULL,
+    `usedAt` DATETIME(3),
+    `revokedAt` DATETIME(3),
+    `userId` VARCHAR(191) NOT NULL,
+UNIQUE INDEX `RefreshToken.tokenHash_unique`(`tokenHash`),
+INDEX `RefreshToken.family_index`(`family`),
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `RefreshToken` ADD FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+/*
+  Warnings:
+
+  - You are about to drop the column `family` on the `RefreshToken` table. All the data in the column will be lost.
+  - Added the required column `sessionId` to the `RefreshToken` table without a default value. This is not possible if the table is not empty.
+
+*/
+-- Existing refresh tokens have no session, so their users log in again
+DELETE FROM `RefreshToken`;
+
+-- DropIndex
+DROP INDEX `RefreshToken.family_index` ON `RefreshToken`;
+
+-- AlterTable
+ALTER TABLE `RefreshToken` DROP COLUMN `family`,
+    ADD COLUMN     `sessionId` VARCHAR(191) NOT NULL;
+
+-- CreateTable
+CREATE TABLE `Session` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `lastUsedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `expiresAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `revokedAt` DATETIME(3),
+    `userAgent` VARCHAR(255),
+    `ip` VARCHAR(45),
+    `userId` VARCHAR(191) NOT NULL,
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `RefreshToken` ADD FOREIGN KEY (`sessionId`) REFERENCES `Session`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Session` ADD FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE `User` ADD COLUMN     `emailVerifiedAt` DATETIME(3);
+
+-- Existing users keep their capabilities
+UPDATE `User` SET `emailVerifiedAt` = `createdAt`;
+
+-- CreateTable
+CREATE TABLE `EmailVerification` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `tokenHash` VARCHAR(64) NOT NULL,
+    `email` VARCHAR(191) NOT NULL,
+    `expiresAt` DATETIME(3) NOT NULL,
+    `usedAt` DATETIME(3),
+    `userId` VARCHAR(191) NOT NULL,
+UNIQUE INDEX `EmailVerification.tokenHash_unique`(`tokenHash`),
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `EmailVerification` ADD FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
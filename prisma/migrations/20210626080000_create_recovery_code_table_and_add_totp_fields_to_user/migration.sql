@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE `User` ADD COLUMN     `totpSecret` VARCHAR(64),
+    ADD COLUMN     `totpEnabledAt` DATETIME(3);
+
+-- CreateTable
+CREATE TABLE `RecoveryCode` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `codeHash` VARCHAR(64) NOT NULL,
+    `usedAt` DATETIME(3),
+    `userId` VARCHAR(191) NOT NULL,
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `RecoveryCode` ADD FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
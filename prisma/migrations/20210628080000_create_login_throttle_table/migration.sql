@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE `LoginThrottle` (
+    `key` VARCHAR(191) NOT NULL,
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `lockedUntil` DATETIME(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`key`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE `PersonalAccessToken` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `name` VARCHAR(100) NOT NULL,
+    `tokenHash` VARCHAR(64) NOT NULL,
+    `scopes` VARCHAR(255) NOT NULL,
+    `expiresAt` DATETIME(3),
+    `lastUsedAt` DATETIME(3),
+    `userId` VARCHAR(191) NOT NULL,
+UNIQUE INDEX `PersonalAccessToken.tokenHash_unique`(`tokenHash`),
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `PersonalAccessToken` ADD FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
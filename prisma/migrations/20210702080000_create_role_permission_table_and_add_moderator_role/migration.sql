@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE `User` MODIFY `role` ENUM('ADMIN', 'MODERATOR', 'USER') NOT NULL DEFAULT 'USER';
+
+-- CreateTable
+CREATE TABLE `RolePermission` (
+    `role` ENUM('ADMIN', 'MODERATOR', 'USER') NOT NULL,
+    `permission` VARCHAR(100) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    PRIMARY KEY (`role`, `permission`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Grant the default moderator permissions
+INSERT INTO `RolePermission` (`role`, `permission`) VALUES
+    ('MODERATOR', 'post.update.any'),
+    ('MODERATOR', 'post.delete.any'),
+    ('MODERATOR', 'comment.moderate'),
+    ('MODERATOR', 'tag.manage');
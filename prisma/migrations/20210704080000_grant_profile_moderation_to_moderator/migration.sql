@@ -0,0 +1,3 @@
+-- Grant the default moderator permissions
+INSERT INTO `RolePermission` (`role`, `permission`) VALUES
+    ('MODERATOR', 'profile.moderate');
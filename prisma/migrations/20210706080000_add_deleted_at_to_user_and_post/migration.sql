@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `User` ADD COLUMN     `deletedAt` DATETIME(3);
+
+-- AlterTable
+ALTER TABLE `Post` ADD COLUMN     `deletedAt` DATETIME(3);
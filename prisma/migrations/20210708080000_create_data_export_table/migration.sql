@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE `DataExport` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `status` ENUM('PENDING', 'READY', 'FAILED') NOT NULL DEFAULT 'PENDING',
+    `completedAt` DATETIME(3),
+    `expiresAt` DATETIME(3),
+    `userId` VARCHAR(191) NOT NULL,
+INDEX `DataExport.status_index`(`status`),
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `DataExport` ADD FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- Seed the placeholder holding the content of anonymized accounts,
+-- its empty password never matches so nobody can log in as it
+INSERT INTO `User` (`id`, `updatedAt`, `email`, `password`, `fullName`, `username`, `role`, `emailVerifiedAt`) VALUES
+    ('deleted-user', CURRENT_TIMESTAMP(3), 'deleted-user@zhihuyou.local', '', 'Deleted user', 'deleted-user', 'USER', CURRENT_TIMESTAMP(3));
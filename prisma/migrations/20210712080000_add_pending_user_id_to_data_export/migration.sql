@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE `DataExport` ADD COLUMN `pendingUserId` VARCHAR(191);
+
+-- Marks the oldest pending export of each user
+UPDATE `DataExport` `d`
+JOIN (
+    SELECT MIN(`id`) AS `id` FROM `DataExport`
+    WHERE `status` = 'PENDING'
+    GROUP BY `userId`
+) `p` ON `p`.`id` = `d`.`id`
+SET `d`.`pendingUserId` = `d`.`userId`;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `DataExport.pendingUserId_unique` ON `DataExport`(`pendingUserId`);
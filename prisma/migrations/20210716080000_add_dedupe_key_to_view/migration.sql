@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `View` ADD COLUMN     `dedupeKey` VARCHAR(64);
+
+-- CreateIndex
+CREATE UNIQUE INDEX `View.dedupeKey_unique` ON `View`(`dedupeKey`);
@@ -14,6 +14,11 @@ import { AuthModule } from '~/modules/users/auth.module'
 import { PostsModule } from '~/modules/posts.module'
 import { AuthMiddleware } from '~/middleware/auth.middleware'
 import { ProfileModule } from '~/modules/users/profile.module'
+import { CommentsModule } from '~/modules/comments.module'
+import { TagsModule } from '~/modules/tags.module'
+import { ReactionsModule } from '~/modules/reactions.module'
+import { MailModule } from '~/modules/mail.module'
+import { TrashModule } from '~/modules/trash.module'
 
 @Module({
   imports: [
@@ -23,10 +28,15 @@ import { ProfileModule } from '~/modules/users/profile.module'
       load: [config],
     }),
     CoreModule,
+    MailModule,
     AuthModule,
     UserModule,
     PostsModule,
     ProfileModule,
+    CommentsModule,
+    TagsModule,
+    ReactionsModule,
+    TrashModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -3,6 +3,16 @@ export enum ConfigKey {
   CORS = 'cors',
   Security = 'security',
   I18n = 'i18n',
+  Comment = 'comment',
+  View = 'view',
+  Post = 'post',
+  Profile = 'profile',
+  Mail = 'mail',
+  Mfa = 'mfa',
+  LoginThrottle = 'loginThrottle',
+  Trash = 'trash',
+  Account = 'account',
+  DataExport = 'dataExport',
 }
 
 export interface Config {
@@ -10,10 +20,22 @@ export interface Config {
   [ConfigKey.CORS]: CorsConfig
   [ConfigKey.Security]: SecurityConfig
   [ConfigKey.I18n]: I18nConfig
+  [ConfigKey.Comment]: CommentConfig
+  [ConfigKey.View]: ViewConfig
+  [ConfigKey.Post]: PostConfig
+  [ConfigKey.Profile]: ProfileConfig
+  [ConfigKey.Mail]: MailConfig
+  [ConfigKey.Mfa]: MfaConfig
+  [ConfigKey.LoginThrottle]: LoginThrottleConfig
+  [ConfigKey.Trash]: TrashConfig
+  [ConfigKey.Account]: AccountConfig
+  [ConfigKey.DataExport]: DataExportConfig
 }
 
 export interface AppConfig {
   port: number
+  /** The url of the web client, used to build links sent by mail. */
+  clientUrl: string
 }
 
 export interface CorsConfig {
@@ -27,8 +49,91 @@ export interface SecurityConfig {
   refreshInForRemembering: string
   bcryptSaltOrRound: string | number
   jwtSecret: string
+  passwordResetMinutes: number
+  passwordSetupMinutes: number
+  emailVerificationMinutes: number
+  /** How long the permissions of a role are cached. */
+  permissionCacheSeconds: number
 }
 
 export interface I18nConfig {
   defaultLanguage: string
 }
+
+export interface CommentConfig {
+  defaultDepth: number
+  maxDepth: number
+  repliesLimit: number
+}
+
+export interface ViewConfig {
+  dedupeMinutes: number
+  analyticsDays: number
+}
+
+export interface PostConfig {
+  scheduleIntervalSeconds: number
+}
+
+export interface ProfileConfig {
+  statusSweepIntervalSeconds: number
+}
+
+export interface MailConfig {
+  transport: 'smtp' | 'log'
+  from: string
+  smtp: SmtpConfig
+  logDir?: string
+}
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  password?: string
+}
+
+export interface MfaConfig {
+  /** The issuer shown by authenticator apps. */
+  issuer: string
+  /** The lifetime of the token exchanged with a code after the password. */
+  challengeExpiresIn: string
+  recoveryCodes: number
+  /** Whether admins must enable 2FA to use their privileges. */
+  requiredForAdmins: boolean
+}
+
+export interface LoginThrottleConfig {
+  /** Failed logins allowed per account before it is locked. */
+  freeAttempts: number
+  /** Failed logins allowed per IP before it is locked. */
+  ipFreeAttempts: number
+  /** The first lock, doubled by each further failure. */
+  lockSeconds: number
+  maxLockSeconds: number
+  /** Failures are forgotten after this long without any. */
+  resetMinutes: number
+}
+
+export interface TrashConfig {
+  /** How long deleted users, posts and comments stay restorable. */
+  retentionDays: number
+  purgeIntervalSeconds: number
+}
+
+export interface AccountConfig {
+  /**
+   * What happens to the content of users deleting their account:
+   * deleted with them, or kept under a "deleted user" placeholder.
+   */
+  deletionStrategy: 'cascade' | 'anonymize'
+}
+
+export interface DataExportConfig {
+  /** Where the archives are written. */
+  dir: string
+  /** How long an archive can be downloaded once ready. */
+  expiresHours: number
+  buildIntervalSeconds: number
+}
@@ -7,7 +7,10 @@ dotenv.config({
 })
 
 const config: Config = {
-  [ConfigKey.App]: { port: parseInt(process.env.APP_PORT || '3000', 10) },
+  [ConfigKey.App]: {
+    port: parseInt(process.env.APP_PORT || '3000', 10),
+    clientUrl: process.env.CLIENT_URL || 'http://localhost:3000',
+  },
   [ConfigKey.CORS]: {
     enabled: true,
     origin: process.env.CORS_ORIGIN || '*',
@@ -18,10 +21,67 @@ const config: Config = {
     refreshInForRemembering: '360d',
     bcryptSaltOrRound: 10,
     jwtSecret: process.env.JWT_SECRET || '',
+    passwordResetMinutes: 60,
+    passwordSetupMinutes: 7 * 24 * 60,
+    emailVerificationMinutes: 24 * 60,
+    permissionCacheSeconds: 60,
   },
   [ConfigKey.I18n]: {
     defaultLanguage: 'en',
   },
+  [ConfigKey.Comment]: {
+    defaultDepth: 3,
+    maxDepth: 8,
+    repliesLimit: 5,
+  },
+  [ConfigKey.View]: {
+    dedupeMinutes: 30,
+    analyticsDays: 30,
+  },
+  [ConfigKey.Post]: {
+    scheduleIntervalSeconds: 30,
+  },
+  [ConfigKey.Profile]: {
+    statusSweepIntervalSeconds: 60,
+  },
+  [ConfigKey.Mail]: {
+    transport: process.env.MAIL_TRANSPORT === 'smtp' ? 'smtp' : 'log',
+    from: process.env.MAIL_FROM || 'no-reply@zhihuyou.local',
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+    },
+    logDir: process.env.MAIL_LOG_DIR,
+  },
+  [ConfigKey.Mfa]: {
+    issuer: process.env.MFA_ISSUER || 'Zhihuyou',
+    challengeExpiresIn: '5m',
+    recoveryCodes: 10,
+    requiredForAdmins: process.env.MFA_REQUIRED_FOR_ADMINS === 'true',
+  },
+  [ConfigKey.LoginThrottle]: {
+    freeAttempts: 5,
+    ipFreeAttempts: 50,
+    lockSeconds: 30,
+    maxLockSeconds: 60 * 60,
+    resetMinutes: 60,
+  },
+  [ConfigKey.Trash]: {
+    retentionDays: 30,
+    purgeIntervalSeconds: 60 * 60,
+  },
+  [ConfigKey.Account]: {
+    deletionStrategy:
+      process.env.ACCOUNT_DELETION === 'cascade' ? 'cascade' : 'anonymize',
+  },
+  [ConfigKey.DataExport]: {
+    dir: process.env.DATA_EXPORT_DIR || 'storage/exports',
+    expiresHours: 48,
+    buildIntervalSeconds: 15,
+  },
 }
 
 export default (): Config => config
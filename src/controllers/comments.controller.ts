@@ -0,0 +1,118 @@
+import {
+  Body,
+  ClassSerializerInterceptor,
+  Controller,
+  Delete,
+  Get,
+  Inject,
+  Param,
+  Post,
+  Put,
+  Query,
+  Req,
+  UseInterceptors,
+} from '@nestjs/common'
+import {
+  ApiBody,
+  ApiCreatedResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+import { CommentsService } from '~/services/comments.service'
+import { RequireVerified } from '~/core/decorators/require-verified.decorator'
+import { Scopes } from '~/core/decorators/scopes.decorator'
+import { Authorize } from '~/core/decorators/authorize.decorator'
+import { CommentPolicy } from '~/policies/comment.policy'
+import { PolicyAction } from '~/enums/PolicyAction'
+import { Scope } from '~/enums/Scope'
+import {
+  CommentRepliesQueryDto,
+  CommentTreeQueryDto,
+  CreateCommentDto,
+  DeleteCommentResponse,
+  UpdateCommentDto,
+} from '~/types/comment'
+import { Request } from '~/types/http'
+import { Comment as CommentModel, CommentNode } from '~/models/comment.model'
+import { ApiPaginatedResponse } from '~/core/decorators/api-paginated-response.decorator'
+import { PaginationQueryDto } from '~/types/pagination'
+
+@ApiTags('comments')
+@UseInterceptors(ClassSerializerInterceptor)
+@Controller()
+export class CommentsController {
+  @Inject()
+  private readonly service!: CommentsService
+
+  @Get('posts/:id/comments')
+  @ApiPaginatedResponse(CommentModel)
+  @ApiNotFoundResponse({ description: 'When the post is not found.' })
+  @ApiOperation({ summary: 'Get comments of a post' })
+  async getAllByPost(
+    @Param('id') id: string,
+    @Query() query: PaginationQueryDto
+  ) {
+    return this.service.getAllByPost(id, query)
+  }
+
+  @Get('posts/:id/comments/tree')
+  @ApiOkResponse({ type: CommentNode, isArray: true })
+  @ApiNotFoundResponse({ description: 'When the post is not found.' })
+  @ApiOperation({ summary: 'Get comments of a post as a tree' })
+  async getTree(@Param('id') id: string, @Query() query: CommentTreeQueryDto) {
+    return this.service.getTree(id, query)
+  }
+
+  @Get('comments/:id/replies')
+  @ApiPaginatedResponse(CommentNode)
+  @ApiNotFoundResponse({ description: 'When the comment is not found.' })
+  @ApiOperation({ summary: 'Load more replies of a comment' })
+  async getReplies(
+    @Param('id') id: string,
+    @Query() query: CommentRepliesQueryDto
+  ) {
+    return this.service.getReplies(id, query)
+  }
+
+  @Post('posts/:id/comments')
+  @RequireVerified()
+  @Scopes(Scope.CommentsWrite)
+  @ApiBody({ type: CreateCommentDto })
+  @ApiOperation({ summary: 'Comment on a post' })
+  @ApiCreatedResponse({ type: CommentModel })
+  @ApiNotFoundResponse({
+    description: 'When the post or the comment to reply is not found.',
+  })
+  async create(
+    @Param('id') id: string,
+    @Body() data: CreateCommentDto,
+    @Req() { user }: Request
+  ) {
+    return this.service.create(data, id, user!.id)
+  }
+
+  @Put('comments/:id')
+  @Authorize(CommentPolicy, PolicyAction.Update)
+  @Scopes(Scope.CommentsWrite)
+  @ApiBody({ type: UpdateCommentDto })
+  @ApiOkResponse({ type: CommentModel })
+  @ApiNotFoundResponse({ description: 'When the comment is not found.' })
+  @ApiOperation({ summary: 'Update a comment' })
+  async update(@Param('id') id: string, @Body() data: UpdateCommentDto) {
+    return this.service.update(data, id)
+  }
+
+  @Delete('comments/:id')
+  @Authorize(CommentPolicy, PolicyAction.Delete)
+  @Scopes(Scope.CommentsWrite)
+  @ApiOkResponse({ type: DeleteCommentResponse })
+  @ApiNotFoundResponse({ description: 'When the comment is not found.' })
+  @ApiOperation({ summary: 'Delete a comment' })
+  async delete(@Param('id') id: string) {
+    await this.service.delete(id)
+
+    return { id }
+  }
+}
@@ -8,12 +8,19 @@ import {
   Param,
   Post,
   Put,
+  Query,
   Req,
   UseGuards,
   UseInterceptors,
 } from '@nestjs/common'
 import { PostsService } from '~/services/posts.service'
 import { AuthGuard } from '~/guards/auth.guard'
+import { RequireVerified } from '~/core/decorators/require-verified.decorator'
+import { Scopes } from '~/core/decorators/scopes.decorator'
+import { Authorize } from '~/core/decorators/authorize.decorator'
+import { PostPolicy } from '~/policies/post.policy'
+import { PolicyAction } from '~/enums/PolicyAction'
+import { Scope } from '~/enums/Scope'
 import { CreatePostDto, UpdatePostDto, DeletePostResponse } from '~/types/post'
 import { Request } from '~/types/http'
 import {
@@ -28,6 +35,10 @@ import {
   ApiUnauthorizedResponse,
 } from '@nestjs/swagger'
 import { Post as PostModel } from '~/models/post.model'
+import { ViewsService } from '~/services/views.service'
+import { ViewStatsQueryDto, ViewStatsResponse } from '~/types/view'
+import { PaginationQueryDto } from '~/types/pagination'
+import { ApiPaginatedResponse } from '~/core/decorators/api-paginated-response.decorator'
 
 @ApiTags('posts')
 @UseInterceptors(ClassSerializerInterceptor)
@@ -36,60 +47,130 @@ export class PostsController {
   @Inject()
   private readonly service!: PostsService
 
+  @Inject()
+  private readonly viewsService!: ViewsService
+
   @Get()
-  @ApiOkResponse({ type: PostModel, isArray: true })
-  async getAll() {
-    return this.service.getAll()
+  @ApiPaginatedResponse(PostModel)
+  async getAll(@Query() query: PaginationQueryDto, @Req() { user }: Request) {
+    return this.service.getAll(query, user?.id)
+  }
+
+  @Get('analytics/views')
+  @UseGuards(AuthGuard)
+  @Scopes(Scope.PostsRead)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Gets daily views of own posts' })
+  @ApiOkResponse({ type: ViewStatsResponse })
+  @ApiUnauthorizedResponse({ description: 'Requires authentication.' })
+  async viewStats(@Query() query: ViewStatsQueryDto, @Req() { user }: Request) {
+    return this.viewsService.getAuthorStats(user!.id, query)
+  }
+
+  @Get('drafts')
+  @UseGuards(AuthGuard)
+  @Scopes(Scope.PostsRead)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Gets own unpublished posts' })
+  @ApiPaginatedResponse(PostModel)
+  @ApiUnauthorizedResponse({ description: 'Requires authentication.' })
+  async getDrafts(
+    @Query() query: PaginationQueryDto,
+    @Req() { user }: Request
+  ) {
+    return this.service.getDrafts(query, user!.id)
+  }
+
+  @Get('scheduled')
+  @UseGuards(AuthGuard)
+  @Scopes(Scope.PostsRead)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Gets own posts scheduled for publishing' })
+  @ApiPaginatedResponse(PostModel)
+  @ApiUnauthorizedResponse({ description: 'Requires authentication.' })
+  async getScheduled(
+    @Query() query: PaginationQueryDto,
+    @Req() { user }: Request
+  ) {
+    return this.service.getScheduled(query, user!.id)
   }
 
   @Get(':id')
   @ApiOkResponse({ type: PostModel })
-  @ApiNotFoundResponse({ description: 'When the post is not found.' })
-  async findById(@Param('id') id: string) {
-    return this.service.findById(id)
+  @ApiNotFoundResponse({
+    description: 'When the post is not found or is a draft of another user.',
+  })
+  async findById(@Param('id') id: string, @Req() req: Request) {
+    return this.service.view(id, {
+      userId: req.user?.id,
+      ip: req.ip,
+      userAgent: req.header('user-agent'),
+    })
   }
 
   @Post()
-  @UseGuards(AuthGuard)
-  @ApiBearerAuth()
+  @RequireVerified()
+  @Scopes(Scope.PostsWrite)
   @ApiBody({ type: CreatePostDto })
   @ApiOperation({ summary: 'Create a post' })
   @ApiCreatedResponse({ type: PostModel })
-  @ApiUnauthorizedResponse({ description: 'Requires authentication.' })
   async create(@Body() data: CreatePostDto, @Req() { user }: Request) {
     return this.service.create(data, user!.id)
   }
 
   @Put(':id')
-  @UseGuards(AuthGuard)
-  @ApiBearerAuth()
+  @Authorize(PostPolicy, PolicyAction.Update)
+  @Scopes(Scope.PostsWrite)
   @ApiBody({ type: UpdatePostDto, required: false })
   @ApiOkResponse({ type: PostModel })
   @ApiBadRequestResponse({
-    description: "When the user doesn't have permission to update.",
+    description:
+      'When publishAt is in the past, or given for a post published already.',
   })
   @ApiNotFoundResponse({ description: 'When the post is not found.' })
   @ApiOperation({ summary: 'Update a post' })
-  async update(
-    @Param('id') id: string,
-    @Body() data: UpdatePostDto,
-    @Req() { user }: Request
-  ) {
-    return this.service.update(data, id, user!.id)
+  async update(@Param('id') id: string, @Body() data: UpdatePostDto) {
+    return this.service.update(data, id)
+  }
+
+  @Post(':id/publish')
+  @Authorize(PostPolicy, PolicyAction.Update)
+  @Scopes(Scope.PostsWrite)
+  @ApiCreatedResponse({ type: PostModel })
+  @ApiNotFoundResponse({ description: 'When the post is not found.' })
+  @ApiOperation({ summary: 'Publish a post' })
+  async publish(@Param('id') id: string) {
+    return this.service.setPublished(id, true)
+  }
+
+  @Post(':id/unpublish')
+  @Authorize(PostPolicy, PolicyAction.Update)
+  @Scopes(Scope.PostsWrite)
+  @ApiCreatedResponse({ type: PostModel })
+  @ApiNotFoundResponse({ description: 'When the post is not found.' })
+  @ApiOperation({ summary: 'Unpublish a post' })
+  async unpublish(@Param('id') id: string) {
+    return this.service.setPublished(id, false)
+  }
+
+  @Delete(':id/schedule')
+  @Authorize(PostPolicy, PolicyAction.Update)
+  @Scopes(Scope.PostsWrite)
+  @ApiOkResponse({ type: PostModel })
+  @ApiNotFoundResponse({ description: 'When the post is not found.' })
+  @ApiOperation({ summary: 'Cancel the scheduled publishing of a post' })
+  async cancelSchedule(@Param('id') id: string) {
+    return this.service.cancelSchedule(id)
   }
 
   @Delete(':id')
-  @UseGuards(AuthGuard)
-  @ApiBearerAuth()
+  @Authorize(PostPolicy, PolicyAction.Delete)
+  @Scopes(Scope.PostsWrite)
   @ApiOkResponse({ type: DeletePostResponse })
   @ApiNotFoundResponse({ description: 'When the post is not found.' })
-  @ApiBadRequestResponse({
-    description: "When the user doesn't have permission to delete.",
-  })
-  @ApiUnauthorizedResponse({ description: 'When the user is not logged in.' })
   @ApiOperation({ summary: 'Delete a post' })
-  async delete(@Param('id') id: string, @Req() { user }: Request) {
-    await this.service.delete(id, user!.id)
+  async delete(@Param('id') id: string) {
+    await this.service.delete(id)
 
     return { id }
   }
@@ -0,0 +1,64 @@
+import {
+  Body,
+  Controller,
+  Inject,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common'
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiCreatedResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger'
+import { ReactionsService } from '~/services/reactions.service'
+import { AuthGuard } from '~/guards/auth.guard'
+import { ReactionSummary, ToggleReactionDto } from '~/types/reaction'
+import { Request } from '~/types/http'
+
+@ApiTags('reactions')
+@UseGuards(AuthGuard)
+@ApiBearerAuth()
+@ApiUnauthorizedResponse({ description: 'Requires authentication.' })
+@Controller()
+export class ReactionsController {
+  @Inject()
+  private readonly service!: ReactionsService
+
+  @Post('posts/:id/reactions')
+  @ApiBody({ type: ToggleReactionDto })
+  @ApiCreatedResponse({ type: ReactionSummary })
+  @ApiNotFoundResponse({ description: 'When the post is not found.' })
+  @ApiOperation({
+    summary: 'Toggles a reaction on a post',
+    description: 'Reacting with the same name again removes the reaction.',
+  })
+  async togglePost(
+    @Param('id') id: string,
+    @Body() data: ToggleReactionDto,
+    @Req() { user }: Request
+  ) {
+    return this.service.togglePost(data, id, user!.id)
+  }
+
+  @Post('comments/:id/reactions')
+  @ApiBody({ type: ToggleReactionDto })
+  @ApiCreatedResponse({ type: ReactionSummary })
+  @ApiNotFoundResponse({ description: 'When the comment is not found.' })
+  @ApiOperation({
+    summary: 'Toggles a reaction on a comment',
+    description: 'Reacting with the same name again removes the reaction.',
+  })
+  async toggleComment(
+    @Param('id') id: string,
+    @Body() data: ToggleReactionDto,
+    @Req() { user }: Request
+  ) {
+    return this.service.toggleComment(data, id, user!.id)
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  Body,
+  ClassSerializerInterceptor,
+  Controller,
+  Get,
+  Inject,
+  Param,
+  Post,
+  Put,
+  Query,
+  UseInterceptors,
+} from '@nestjs/common'
+import {
+  ApiBody,
+  ApiConflictResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+import { TagService } from '~/services/tags/tag.service'
+import { AdminTagService } from '~/services/tags/admin.service'
+import { Permissions } from '~/core/decorators/permissions.decorator'
+import { Permission } from '~/enums/Permission'
+import { Tag, TagWithCount } from '~/models/tag.model'
+import { Post as PostModel } from '~/models/post.model'
+import { MergeTagDto, RenameTagDto } from '~/types/tag'
+import { PaginationQueryDto } from '~/types/pagination'
+import { ApiPaginatedResponse } from '~/core/decorators/api-paginated-response.decorator'
+
+@ApiTags('tags')
+@UseInterceptors(ClassSerializerInterceptor)
+@Controller('tags')
+export class TagsController {
+  @Inject()
+  private readonly service!: TagService
+
+  @Inject()
+  private readonly adminService!: AdminTagService
+
+  @Get()
+  @ApiPaginatedResponse(TagWithCount)
+  @ApiOperation({ summary: 'Get all tags with usage counts' })
+  async getAll(@Query() query: PaginationQueryDto) {
+    return this.service.getAll(query)
+  }
+
+  @Get(':name/posts')
+  @ApiPaginatedResponse(PostModel)
+  @ApiNotFoundResponse({ description: 'When the tag is not found.' })
+  @ApiOperation({ summary: 'Get published posts of a tag' })
+  async getPosts(
+    @Param('name') name: string,
+    @Query() query: PaginationQueryDto
+  ) {
+    return this.service.getPosts(name, query)
+  }
+
+  @Put(':name')
+  @Permissions(Permission.TagManage)
+  @ApiBody({ type: RenameTagDto })
+  @ApiOkResponse({ type: Tag })
+  @ApiNotFoundResponse({ description: 'When the tag is not found.' })
+  @ApiConflictResponse({ description: 'When the new name already exists.' })
+  @ApiOperation({ summary: 'Renames a tag' })
+  async rename(@Param('name') name: string, @Body() data: RenameTagDto) {
+    return this.adminService.rename(data, name)
+  }
+
+  @Post(':name/merge')
+  @Permissions(Permission.TagManage)
+  @ApiBody({ type: MergeTagDto })
+  @ApiOkResponse({ type: Tag })
+  @ApiNotFoundResponse({ description: 'When either tag is not found.' })
+  @ApiOperation({ summary: 'Merges a tag into another tag' })
+  async merge(@Param('name') name: string, @Body() data: MergeTagDto) {
+    return this.adminService.merge(data, name)
+  }
+}
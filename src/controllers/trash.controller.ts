@@ -0,0 +1,78 @@
+import { Controller, Get, Inject, Param, Post, Query } from '@nestjs/common'
+import {
+  ApiCreatedResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+import { Role } from '@prisma/client'
+import { Roles } from '~/core/decorators/roles.decorator'
+import { Scopes } from '~/core/decorators/scopes.decorator'
+import { Scope } from '~/enums/Scope'
+import { Serializer } from '~/core/decorators/serializer.decorator'
+import { ApiPaginatedResponse } from '~/core/decorators/api-paginated-response.decorator'
+import { TrashService } from '~/services/trash.service'
+import { PaginationQueryDto } from '~/types/pagination'
+import { User } from '~/models/user.model'
+import { Post as PostModel } from '~/models/post.model'
+import { TrashedComment } from '~/models/comment.model'
+
+@ApiTags('trash')
+@Roles(Role.ADMIN)
+@Scopes(Scope.UsersAdmin)
+@Controller('trash')
+export class TrashController {
+  @Inject()
+  private readonly service!: TrashService
+
+  @Get('users')
+  @ApiOperation({ summary: 'Gets the deleted users' })
+  @ApiPaginatedResponse(User)
+  @Serializer(User)
+  async getUsers(@Query() query: PaginationQueryDto) {
+    return await this.service.getUsers(query)
+  }
+
+  @Post('users/:id/restore')
+  @ApiOperation({ summary: 'Restores a deleted user' })
+  @ApiCreatedResponse({ type: User })
+  @ApiNotFoundResponse({ description: 'When the user is not in the trash.' })
+  @Serializer(User)
+  async restoreUser(@Param('id') id: string) {
+    return await this.service.restoreUser(id)
+  }
+
+  @Get('posts')
+  @ApiOperation({ summary: 'Gets the deleted posts' })
+  @ApiPaginatedResponse(PostModel)
+  @Serializer(PostModel)
+  async getPosts(@Query() query: PaginationQueryDto) {
+    return await this.service.getPosts(query)
+  }
+
+  @Post('posts/:id/restore')
+  @ApiOperation({ summary: 'Restores a deleted post' })
+  @ApiCreatedResponse({ type: PostModel })
+  @ApiNotFoundResponse({ description: 'When the post is not in the trash.' })
+  @Serializer(PostModel)
+  async restorePost(@Param('id') id: string) {
+    return await this.service.restorePost(id)
+  }
+
+  @Get('comments')
+  @ApiOperation({ summary: 'Gets the deleted comments' })
+  @ApiPaginatedResponse(TrashedComment)
+  @Serializer(TrashedComment)
+  async getComments(@Query() query: PaginationQueryDto) {
+    return await this.service.getComments(query)
+  }
+
+  @Post('comments/:id/restore')
+  @ApiOperation({ summary: 'Restores a deleted comment' })
+  @ApiCreatedResponse({ type: TrashedComment })
+  @ApiNotFoundResponse({ description: 'When the comment is not in the trash.' })
+  @Serializer(TrashedComment)
+  async restoreComment(@Param('id') id: string) {
+    return await this.service.restoreComment(id)
+  }
+}
@@ -2,18 +2,27 @@ import {
   Body,
   ClassSerializerInterceptor,
   Controller,
+  Delete,
   Get,
+  HttpCode,
+  HttpStatus,
   Inject,
+  Param,
   Post,
+  Query,
   Req,
   UseGuards,
   UseInterceptors,
 } from '@nestjs/common'
 import {
   AuthTokenInstance,
+  ForgotPasswordDto,
   LoginDto,
+  LogoutDto,
   RefreshTokenDto,
   RegisterDto,
+  ResetPasswordDto,
+  VerifyEmailDto,
 } from '~/types/user/auth'
 import { AuthService } from '~/services/users/auth.service'
 import { AuthGuard } from '~/guards/auth.guard'
@@ -23,14 +32,36 @@ import {
   ApiBearerAuth,
   ApiConflictResponse,
   ApiCreatedResponse,
+  ApiExtraModels,
   ApiForbiddenResponse,
+  ApiNoContentResponse,
   ApiNotFoundResponse,
   ApiOkResponse,
   ApiTags,
+  ApiTooManyRequestsResponse,
   ApiUnauthorizedResponse,
+  getSchemaPath,
 } from '@nestjs/swagger'
 import { User } from '~/models/user.model'
 import { Request } from '~/types/http'
+import { SessionService } from '~/services/users/session.service'
+import { Session } from '~/models/session.model'
+import { Serializer } from '~/core/decorators/serializer.decorator'
+import { PasswordResetService } from '~/services/users/password-reset.service'
+import { EmailVerificationService } from '~/services/users/email-verification.service'
+import { MfaService } from '~/services/users/mfa.service'
+import {
+  MfaChallengeInstance,
+  MfaCodeDto,
+  MfaEnrollmentResponse,
+  RecoveryCodesResponse,
+  VerifyMfaDto,
+} from '~/types/user/mfa'
+import { PersonalAccessTokenService } from '~/services/users/personal-access-token.service'
+import { PersonalAccessToken } from '~/models/personal-access-token.model'
+import { CreatePersonalAccessTokenDto } from '~/types/user/personal-access-token'
+import { PaginationQueryDto } from '~/types/pagination'
+import { ApiPaginatedResponse } from '~/core/decorators/api-paginated-response.decorator'
 
 @ApiTags('auth')
 @Controller('auth')
@@ -39,6 +70,21 @@ export class AuthController {
   @Inject()
   private readonly service!: AuthService
 
+  @Inject()
+  private readonly sessionService!: SessionService
+
+  @Inject()
+  private readonly passwordResetService!: PasswordResetService
+
+  @Inject()
+  private readonly emailVerificationService!: EmailVerificationService
+
+  @Inject()
+  private readonly mfaService!: MfaService
+
+  @Inject()
+  private readonly personalAccessTokenService!: PersonalAccessTokenService
+
   @Get('me')
   @UseGuards(AuthGuard)
   @ApiBearerAuth()
@@ -52,14 +98,51 @@ export class AuthController {
   @UseGuards(GuestGuard)
   @ApiForbiddenResponse()
   @ApiBadRequestResponse({
-    description: 'When there are validation errors.',
+    description:
+      'When there are validation errors, or the credentials are invalid.',
+  })
+  @ApiTooManyRequestsResponse({
+    description: 'When the account or the IP is locked out by failed logins.',
   })
-  @ApiNotFoundResponse({
-    description: 'When the user email is not found.',
+  @ApiExtraModels(AuthTokenInstance, MfaChallengeInstance)
+  @ApiCreatedResponse({
+    description:
+      'The tokens, or a challenge when two-factor authentication is enabled.',
+    schema: {
+      oneOf: [
+        { $ref: getSchemaPath(AuthTokenInstance) },
+        { $ref: getSchemaPath(MfaChallengeInstance) },
+      ],
+    },
+  })
+  async login(@Body() data: LoginDto, @Req() req: Request) {
+    return this.service.login(data, {
+      ip: req.ip,
+      userAgent: req.header('user-agent'),
+    })
+  }
+
+  @Post('2fa/verify')
+  @UseGuards(GuestGuard)
+  @ApiForbiddenResponse()
+  @ApiBadRequestResponse({
+    description: 'When there are validation errors, or the code is invalid.',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'When the MFA token is invalid or expired.',
+  })
+  @ApiTooManyRequestsResponse({
+    description: 'When the account or the IP is locked out by failed logins.',
   })
   @ApiCreatedResponse({ type: AuthTokenInstance })
-  async login(@Body() data: LoginDto) {
-    return this.service.login(data)
+  async verifyMfa(
+    @Body() { mfaToken, code }: VerifyMfaDto,
+    @Req() req: Request
+  ) {
+    return this.service.verifyMfa(mfaToken, code, {
+      ip: req.ip,
+      userAgent: req.header('user-agent'),
+    })
   }
 
   @Post('register')
@@ -74,16 +157,207 @@ export class AuthController {
   @ApiCreatedResponse({
     type: AuthTokenInstance,
   })
-  async register(@Body() data: RegisterDto) {
-    return this.service.register(data)
+  async register(@Body() data: RegisterDto, @Req() req: Request) {
+    return this.service.register(data, {
+      ip: req.ip,
+      userAgent: req.header('user-agent'),
+    })
   }
 
   @Post('refresh')
+  @ApiBadRequestResponse({
+    description: 'When there are validation errors.',
+  })
+  @ApiUnauthorizedResponse({
+    description:
+      'When the refresh token is invalid, revoked or already used (which ends its session).',
+  })
+  @ApiCreatedResponse({ type: AuthTokenInstance })
+  async refresh(@Body() { refreshToken, remembers }: RefreshTokenDto) {
+    return this.service.refreshToken(refreshToken, remembers)
+  }
+
+  @Post('logout')
   @UseGuards(AuthGuard)
   @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
   @ApiUnauthorizedResponse({ description: 'Requires authentication.' })
-  @ApiCreatedResponse({ type: AuthTokenInstance })
-  async refresh(@Body() { refreshToken }: RefreshTokenDto) {
-    return this.service.refreshToken(refreshToken)
+  @ApiNoContentResponse({
+    description: 'Ends the session of the refresh token.',
+  })
+  async logout(@Body() { refreshToken }: LogoutDto, @Req() { user }: Request) {
+    await this.service.logout(refreshToken, user!.id)
+  }
+
+  @Post('logout-all')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiUnauthorizedResponse({ description: 'Requires authentication.' })
+  @ApiNoContentResponse({
+    description: 'Ends all sessions and revokes issued access tokens.',
+  })
+  async logoutAll(@Req() { user }: Request) {
+    await this.service.logoutAll(user!.id)
+  }
+
+  @Post('password/forgot')
+  @UseGuards(GuestGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiForbiddenResponse()
+  @ApiBadRequestResponse({
+    description: 'When there are validation errors.',
+  })
+  @ApiNoContentResponse({
+    description:
+      'Mails a password reset link if the email belongs to a user, without telling whether it does.',
+  })
+  async forgotPassword(@Body() { email }: ForgotPasswordDto) {
+    await this.passwordResetService.forgot(email)
+  }
+
+  @Post('password/reset')
+  @UseGuards(GuestGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiForbiddenResponse()
+  @ApiBadRequestResponse({
+    description:
+      'When there are validation errors, or the token is invalid, used or expired.',
+  })
+  @ApiNoContentResponse({
+    description: 'Resets the password and logs out all sessions.',
+  })
+  async resetPassword(@Body() data: ResetPasswordDto) {
+    await this.passwordResetService.reset(data)
+  }
+
+  @Post('email/verify')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiBadRequestResponse({
+    description:
+      'When there are validation errors, or the token is invalid, used or expired.',
+  })
+  @ApiNoContentResponse({ description: 'Verifies the email.' })
+  async verifyEmail(@Body() { token }: VerifyEmailDto) {
+    await this.emailVerificationService.verify(token)
+  }
+
+  @Post('email/resend')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiUnauthorizedResponse({ description: 'Requires authentication.' })
+  @ApiBadRequestResponse({ description: 'When the email is already verified.' })
+  @ApiNoContentResponse({ description: 'Mails a new verification link.' })
+  async resendVerification(@Req() { user }: Request) {
+    await this.emailVerificationService.resend(user!)
+  }
+
+  @Post('2fa/enroll')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiUnauthorizedResponse({ description: 'Requires authentication.' })
+  @ApiBadRequestResponse({ description: 'When 2FA is already enabled.' })
+  @ApiCreatedResponse({ type: MfaEnrollmentResponse })
+  async enrollMfa(@Req() { user }: Request) {
+    return this.mfaService.enroll(user!)
+  }
+
+  @Post('2fa/confirm')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiUnauthorizedResponse({ description: 'Requires authentication.' })
+  @ApiBadRequestResponse({
+    description: 'When 2FA is already enabled, or the code is invalid.',
+  })
+  @ApiCreatedResponse({ type: RecoveryCodesResponse })
+  async confirmMfa(
+    @Body() { code }: MfaCodeDto,
+    @Req() { user }: Request
+  ): Promise<RecoveryCodesResponse> {
+    return {
+      recoveryCodes: await this.mfaService.confirm(user!, code),
+    }
+  }
+
+  @Delete('2fa')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiUnauthorizedResponse({ description: 'Requires authentication.' })
+  @ApiBadRequestResponse({
+    description: 'When 2FA is not enabled, or the code is invalid.',
+  })
+  @ApiNoContentResponse({ description: 'Disables 2FA.' })
+  async disableMfa(@Body() { code }: MfaCodeDto, @Req() { user }: Request) {
+    await this.mfaService.disable(user!, code)
+  }
+
+  @Get('sessions')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiUnauthorizedResponse({ description: 'Requires authentication.' })
+  @ApiPaginatedResponse(Session)
+  @Serializer(Session)
+  async sessions(
+    @Req() { user, sessionId }: Request,
+    @Query() query: PaginationQueryDto
+  ) {
+    const page = await this.sessionService.list(user!.id, query)
+
+    return page.map((sessions) =>
+      sessions.map((session) => ({
+        ...session,
+        current: session.id === sessionId,
+      }))
+    )
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiUnauthorizedResponse({ description: 'Requires authentication.' })
+  @ApiNotFoundResponse({ description: 'The session to end is not found.' })
+  @ApiNoContentResponse({
+    description: 'Ends the session, revoking its tokens.',
+  })
+  async revokeSession(@Param('id') id: string, @Req() { user }: Request) {
+    await this.sessionService.revoke(id, user!.id)
+  }
+
+  @Get('tokens')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiUnauthorizedResponse({ description: 'Requires authentication.' })
+  @ApiPaginatedResponse(PersonalAccessToken)
+  @Serializer(PersonalAccessToken)
+  async tokens(@Req() { user }: Request, @Query() query: PaginationQueryDto) {
+    return this.personalAccessTokenService.list(user!.id, query)
+  }
+
+  @Post('tokens')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiUnauthorizedResponse({ description: 'Requires authentication.' })
+  @ApiBadRequestResponse({ description: 'When the expiry is in the past.' })
+  @ApiCreatedResponse({ type: PersonalAccessToken })
+  @Serializer(PersonalAccessToken)
+  async createToken(
+    @Body() data: CreatePersonalAccessTokenDto,
+    @Req() { user }: Request
+  ) {
+    return this.personalAccessTokenService.create(data, user!.id)
+  }
+
+  @Delete('tokens/:id')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiUnauthorizedResponse({ description: 'Requires authentication.' })
+  @ApiNotFoundResponse({ description: 'The token to revoke is not found.' })
+  @ApiNoContentResponse({ description: 'Revokes the token.' })
+  async revokeToken(@Param('id') id: string, @Req() { user }: Request) {
+    await this.personalAccessTokenService.revoke(id, user!.id)
   }
 }
@@ -1,10 +1,15 @@
 import {
   Body,
+  ClassSerializerInterceptor,
   Controller,
+  Delete,
+  Get,
   Inject,
+  Param,
   Put,
   Req,
   UseGuards,
+  UseInterceptors,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common'
@@ -13,20 +18,31 @@ import {
   ApiBearerAuth,
   ApiBody,
   ApiCreatedResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
   ApiOperation,
   ApiTags,
   ApiUnauthorizedResponse,
 } from '@nestjs/swagger'
 import { AuthGuard } from '~/guards/auth.guard'
 import {
+  ClearProfileStatusResponse,
+  OwnProfileResponse,
+  SaveProfileDto,
   SaveProfileResponse,
   SaveProfileWithStatusDto,
 } from '~/types/user/profile'
+import { Authorize } from '~/core/decorators/authorize.decorator'
+import { ProfilePolicy } from '~/policies/profile.policy'
+import { PolicyAction } from '~/enums/PolicyAction'
 import { Request } from '~/types/http'
 import { ProfileStatusService } from '~/services/users/status.service'
 import modelFactory from '~/core/model/model.factory'
-import { ProfileClient } from '~/models/profile.model'
-import { ProfileStatusClient } from '~/models/profile-status.model'
+import { Profile, ProfileClient } from '~/models/profile.model'
+import {
+  ProfileStatus,
+  ProfileStatusClient,
+} from '~/models/profile-status.model'
 
 @ApiTags('profile')
 @UseGuards(AuthGuard)
@@ -38,6 +54,21 @@ export class ProfileController {
   @Inject()
   private readonly statusService!: ProfileStatusService
 
+  @Get()
+  @ApiBearerAuth()
+  @ApiUnauthorizedResponse({ description: 'You muse be logged in to proceed' })
+  @ApiOperation({ summary: 'Get the profile of user' })
+  @ApiOkResponse({ type: OwnProfileResponse })
+  @UseInterceptors(ClassSerializerInterceptor)
+  async get(@Req() { user }: Request): Promise<OwnProfileResponse> {
+    const { profile, status } = await this.service.findWithStatus(user!.id)
+
+    return {
+      profile: profile ? modelFactory.make(Profile, profile) : null,
+      status: status ? modelFactory.make(ProfileStatus, status) : null,
+    }
+  }
+
   @Put()
   @ApiBearerAuth()
   @HttpCode(HttpStatus.CREATED)
@@ -61,4 +92,25 @@ export class ProfileController {
 
     return response
   }
+
+  @Put(':id')
+  @Authorize(ProfilePolicy, PolicyAction.Update)
+  @ApiBody({ type: SaveProfileDto })
+  @ApiNotFoundResponse({ description: 'When the profile is not found.' })
+  @ApiOperation({ summary: 'Update a profile by id' })
+  @ApiOkResponse({ type: ProfileClient })
+  async update(@Param('id') id: string, @Body() data: SaveProfileDto) {
+    return modelFactory.make(ProfileClient, await this.service.update(data, id))
+  }
+
+  @Delete('status')
+  @ApiBearerAuth()
+  @ApiUnauthorizedResponse({ description: 'You muse be logged in to proceed' })
+  @ApiOperation({ summary: 'Clear the profile status of user' })
+  @ApiOkResponse({ type: ClearProfileStatusResponse })
+  async clearStatus(@Req() { user }: Request) {
+    return {
+      data: await this.statusService.clear(user!.id),
+    }
+  }
 }
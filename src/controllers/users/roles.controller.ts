@@ -0,0 +1,50 @@
+import { Body, Controller, Get, Inject, Param, Put } from '@nestjs/common'
+import {
+  ApiBadRequestResponse,
+  ApiBody,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+import { Role } from '@prisma/client'
+import { Roles } from '~/core/decorators/roles.decorator'
+import { Scopes } from '~/core/decorators/scopes.decorator'
+import { Scope } from '~/enums/Scope'
+import { PermissionService } from '~/services/users/permission.service'
+import {
+  RoleParamDto,
+  RolePermissionsResponse,
+  UpdateRolePermissionsDto,
+} from '~/types/user/permission'
+
+@ApiTags('user')
+@Controller('roles')
+export class RolesController {
+  @Inject()
+  private readonly service!: PermissionService
+
+  @Get()
+  @Roles(Role.ADMIN)
+  @Scopes(Scope.UsersAdmin)
+  @ApiOperation({ summary: 'Gets the permissions of every role' })
+  @ApiOkResponse({ type: [RolePermissionsResponse] })
+  async getAll() {
+    return await this.service.list()
+  }
+
+  @Put(':role')
+  @Roles(Role.ADMIN)
+  @Scopes(Scope.UsersAdmin)
+  @ApiBody({ type: UpdateRolePermissionsDto })
+  @ApiOperation({ summary: 'Replaces the permissions of a role' })
+  @ApiOkResponse({ type: RolePermissionsResponse })
+  @ApiBadRequestResponse({
+    description: 'When the role is ADMIN, which holds all the permissions.',
+  })
+  async update(
+    @Param() { role }: RoleParamDto,
+    @Body() { permissions }: UpdateRolePermissionsDto
+  ) {
+    return await this.service.update(role, permissions)
+  }
+}
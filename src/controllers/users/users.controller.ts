@@ -1,30 +1,39 @@
 import {
   Body,
+  ClassSerializerInterceptor,
   Controller,
   Delete,
   Get,
+  HttpCode,
+  HttpStatus,
   Inject,
   Param,
   Post,
   Put,
   Query,
   Req,
+  Res,
   UseGuards,
+  UseInterceptors,
 } from '@nestjs/common'
 import {
   ApiBadRequestResponse,
+  ApiAcceptedResponse,
   ApiBody,
   ApiConflictResponse,
   ApiCreatedResponse,
   ApiForbiddenResponse,
+  ApiNoContentResponse,
   ApiNotFoundResponse,
   ApiOkResponse,
   ApiOperation,
+  ApiProduces,
   ApiQuery,
   ApiTags,
 } from '@nestjs/swagger'
 import {
   CreateUserDto,
+  DeleteAccountDto,
   ForceUpdatePasswordDto,
   SearchUserDto,
   UpdatePasswordDto,
@@ -34,13 +43,31 @@ import {
 } from '~/types/user/user'
 import { Role } from '@prisma/client'
 import { Roles } from '~/core/decorators/roles.decorator'
+import { Permissions } from '~/core/decorators/permissions.decorator'
+import { Permission } from '~/enums/Permission'
+import { Scopes } from '~/core/decorators/scopes.decorator'
+import { Scope } from '~/enums/Scope'
 import { AdminUserService } from '~/services/users/admin.service'
-import { User, UserClient } from '~/models/user.model'
+import { User, UserClient, UserSummary } from '~/models/user.model'
 import { Serializer } from '~/core/decorators/serializer.decorator'
 import { UserService } from '~/services/users/user.service'
 import { Request } from '~/types/http'
+import { Response } from 'express'
 import { AuthGuard } from '~/guards/auth.guard'
+import { FollowService } from '~/services/users/follow.service'
+import { FollowResponse } from '~/types/user/follow'
+import { PaginationQueryDto } from '~/types/pagination'
+import { ProfileService } from '~/services/users/profile.service'
+import { UserProfileResponse } from '~/types/user/profile'
 import modelFactory from '~/core/model/model.factory'
+import { ProfileClient } from '~/models/profile.model'
+import { ProfileStatusClient } from '~/models/profile-status.model'
+import { ApiPaginatedResponse } from '~/core/decorators/api-paginated-response.decorator'
+import { SessionService } from '~/services/users/session.service'
+import { Session } from '~/models/session.model'
+import { AccountDeletionService } from '~/services/users/account-deletion.service'
+import { DataExportService } from '~/services/users/data-export.service'
+import { DataExport } from '~/models/data-export.model'
 
 @ApiTags('user')
 @UseGuards(AuthGuard)
@@ -52,8 +79,24 @@ export class UsersController {
   @Inject()
   private readonly userService!: UserService
 
+  @Inject()
+  private readonly followService!: FollowService
+
+  @Inject()
+  private readonly profileService!: ProfileService
+
+  @Inject()
+  private readonly sessionService!: SessionService
+
+  @Inject()
+  private readonly accountDeletionService!: AccountDeletionService
+
+  @Inject()
+  private readonly dataExportService!: DataExportService
+
   @Post()
   @Roles(Role.ADMIN)
+  @Scopes(Scope.UsersAdmin)
   @ApiOperation({ summary: 'Creates a user' })
   @ApiBody({ type: CreateUserDto })
   @ApiConflictResponse({ description: 'Email ${input} already exists.' })
@@ -65,9 +108,13 @@ export class UsersController {
 
   @Put(':id')
   @Roles(Role.ADMIN)
+  @Scopes(Scope.UsersAdmin)
   @ApiBody({ type: UpdateUserDto })
   @ApiNotFoundResponse({ description: 'The User to update is not found.' })
   @ApiOperation({ summary: 'Updates a user' })
+  @ApiBadRequestResponse({
+    description: 'When changing the placeholder of deleted accounts.',
+  })
   @ApiOkResponse({ type: User })
   @Serializer(User)
   async update(@Body() data: UpdateUserDto, @Param('id') id: string) {
@@ -76,9 +123,13 @@ export class UsersController {
 
   @Put('password/:id')
   @Roles(Role.ADMIN)
+  @Scopes(Scope.UsersAdmin)
   @ApiBody({ type: ForceUpdatePasswordDto })
   @ApiNotFoundResponse({ description: 'The User to update is not found.' })
   @ApiOperation({ summary: 'Updates a user password' })
+  @ApiBadRequestResponse({
+    description: 'When changing the placeholder of deleted accounts.',
+  })
   @ApiOkResponse({ type: UpdatePasswordSuccessfulResponse })
   async updatePassword(
     @Body() data: ForceUpdatePasswordDto,
@@ -90,20 +141,90 @@ export class UsersController {
   }
 
   @Put('role/:id')
-  @Roles(Role.ADMIN)
+  @Permissions(Permission.UserUpdateRole)
+  @Scopes(Scope.UsersAdmin)
   @ApiBody({ type: UpdateRoleDto })
   @ApiNotFoundResponse({ description: 'The User to update is not found.' })
   @ApiOperation({ summary: 'Updates a user role' })
+  @ApiBadRequestResponse({
+    description: 'When changing the placeholder of deleted accounts.',
+  })
   @ApiOkResponse({ type: User })
   @Serializer(User)
-  async updateRole(@Body() data: UpdateRoleDto, @Param('id') id: string) {
-    return await this.service.updateRole(data, id)
+  async updateRole(
+    @Body() data: UpdateRoleDto,
+    @Param('id') id: string,
+    @Req() { user }: Request
+  ) {
+    return await this.service.updateRole(data, id, user!)
+  }
+
+  @Delete('me')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiBody({ type: DeleteAccountDto })
+  @ApiOperation({ summary: 'Deletes own account' })
+  @ApiNoContentResponse({
+    description:
+      'Deletes the account, with its content or leaving it to a deleted user placeholder.',
+  })
+  @ApiBadRequestResponse({ description: 'Password is incorrect' })
+  async deleteMe(@Body() data: DeleteAccountDto, @Req() { user }: Request) {
+    await this.accountDeletionService.delete(data, user!.id)
+  }
+
+  @Post('me/export')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Requests an archive of own data' })
+  @ApiAcceptedResponse({
+    type: DataExport,
+    description: 'The archive is built in the background.',
+  })
+  @Serializer(DataExport)
+  async requestExport(@Req() { user }: Request) {
+    return await this.dataExportService.request(user!.id)
+  }
+
+  @Get('me/export/:id')
+  @ApiOperation({ summary: 'Downloads an archive of own data' })
+  @ApiProduces('application/json')
+  @ApiOkResponse({ description: 'The archive, as a JSON file.' })
+  @ApiNotFoundResponse({
+    description: 'When the archive is not found or expired.',
+  })
+  @ApiConflictResponse({
+    description: 'When the archive is not built yet, or failed.',
+  })
+  async downloadExport(
+    @Param('id') id: string,
+    @Req() { user }: Request,
+    @Res() res: Response
+  ) {
+    const file = await this.dataExportService.getFile(id, user!.id)
+
+    try {
+      await new Promise<void>((resolve, reject) =>
+        res.download(file, `zhihuyou-export-${id}.json`, (e) =>
+          // Once sending has started, the response can't change anymore.
+          e && !res.headersSent ? reject(e) : resolve()
+        )
+      )
+    } catch (e) {
+      if (e.code === 'ENOENT') {
+        throw await this.dataExportService.missingFile(id)
+      }
+
+      throw e
+    }
   }
 
   @Delete(':id')
   @Roles(Role.ADMIN)
+  @Scopes(Scope.UsersAdmin)
   @ApiNotFoundResponse({ description: 'The User to delete does not exists.' })
   @ApiOkResponse({ type: User, description: 'return already deleted user' })
+  @ApiBadRequestResponse({
+    description: 'When deleting the placeholder of deleted accounts.',
+  })
   @ApiOperation({ summary: 'Deletes a user' })
   @Serializer(User)
   async remove(@Param('id') id: string) {
@@ -112,7 +233,8 @@ export class UsersController {
 
   @Get('search')
   @Roles(Role.ADMIN)
-  @ApiOkResponse({ type: User, isArray: true })
+  @Scopes(Scope.UsersAdmin)
+  @ApiPaginatedResponse(User)
   @ApiQuery({ type: SearchUserDto })
   @ApiOperation({ summary: 'Search users by email/firstname/lastname' })
   @Serializer(User)
@@ -121,20 +243,145 @@ export class UsersController {
   }
 
   @Get('@:username')
-  @ApiOkResponse({ type: UserClient })
+  @ApiOkResponse({ type: UserSummary })
+  @ApiNotFoundResponse({
+    description: 'No user found for username: ${username}',
+  })
+  @ApiOperation({ summary: "Gets a user's public summary" })
+  @UseInterceptors(ClassSerializerInterceptor)
+  async getUserByUser(
+    @Param('username') username: string,
+    @Req() { user: viewer }: Request
+  ) {
+    const summary = await this.userService.getSummary(username)
+    summary.isFollowing = await this.followService.isFollowing(
+      viewer!.id,
+      summary.id
+    )
+
+    return summary
+  }
+
+  @Get('@:username/profile')
+  @ApiOkResponse({ type: UserProfileResponse })
   @ApiNotFoundResponse({
     description: 'No user found for username: ${username}',
   })
-  async getUserByUser(@Param('username') username: string) {
+  @ApiOperation({ summary: "Gets a user's public profile and status" })
+  @UseInterceptors(ClassSerializerInterceptor)
+  async getProfile(
+    @Param('username') username: string
+  ): Promise<UserProfileResponse> {
     const user = await this.userService.getUserByUsername(username)
+    const { profile, status } = await this.profileService.findWithStatus(
+      user.id
+    )
+
+    return {
+      profile: profile ? modelFactory.make(ProfileClient, profile) : null,
+      status: status ? modelFactory.make(ProfileStatusClient, status) : null,
+    }
+  }
+
+  @Post('@:username/follow')
+  @ApiOperation({ summary: 'Follows a user' })
+  @ApiCreatedResponse({ type: FollowResponse })
+  @ApiBadRequestResponse({ description: "You can't follow yourself." })
+  @ApiNotFoundResponse({
+    description: 'No user found for username: ${username}',
+  })
+  async follow(@Param('username') username: string, @Req() { user }: Request) {
+    return {
+      isFollowing: await this.followService.follow(username, user!.id),
+    }
+  }
+
+  @Delete('@:username/follow')
+  @ApiOperation({ summary: 'Unfollows a user' })
+  @ApiOkResponse({ type: FollowResponse })
+  @ApiNotFoundResponse({
+    description: 'No user found for username: ${username}',
+  })
+  async unfollow(
+    @Param('username') username: string,
+    @Req() { user }: Request
+  ) {
+    return {
+      isFollowing: await this.followService.unfollow(username, user!.id),
+    }
+  }
+
+  @Get('@:username/followers')
+  @ApiOperation({ summary: 'Gets the followers of a user' })
+  @ApiPaginatedResponse(UserClient)
+  @ApiNotFoundResponse({
+    description: 'No user found for username: ${username}',
+  })
+  @Serializer(UserClient)
+  async followers(
+    @Param('username') username: string,
+    @Query() query: PaginationQueryDto
+  ) {
+    return await this.followService.followers(username, query)
+  }
+
+  @Get('@:username/following')
+  @ApiOperation({ summary: 'Gets the users followed by a user' })
+  @ApiPaginatedResponse(UserClient)
+  @ApiNotFoundResponse({
+    description: 'No user found for username: ${username}',
+  })
+  @Serializer(UserClient)
+  async following(
+    @Param('username') username: string,
+    @Query() query: PaginationQueryDto
+  ) {
+    return await this.followService.following(username, query)
+  }
 
-    //TODO: another user's summary data, like post count, user's profile, like count, comment count etc.
+  @Post(':id/unlock')
+  @Roles(Role.ADMIN)
+  @Scopes(Scope.UsersAdmin)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Unlocks a user locked out by failed logins' })
+  @ApiNotFoundResponse({ description: 'The User to unlock is not found.' })
+  @ApiNoContentResponse({ description: 'Forgets the failed logins.' })
+  async unlock(@Param('id') id: string) {
+    await this.service.unlock(id)
+  }
+
+  @Get(':id/sessions')
+  @Roles(Role.ADMIN)
+  @Scopes(Scope.UsersAdmin)
+  @ApiOperation({ summary: 'Gets the active sessions of a user' })
+  @ApiPaginatedResponse(Session)
+  @Serializer(Session)
+  async getSessions(
+    @Param('id') id: string,
+    @Query() query: PaginationQueryDto
+  ) {
+    return await this.sessionService.list(id, query)
+  }
 
-    return modelFactory.make(UserClient, user)
+  @Delete(':id/sessions/:sessionId')
+  @Roles(Role.ADMIN)
+  @Scopes(Scope.UsersAdmin)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Ends a session of a user' })
+  @ApiNotFoundResponse({ description: 'The session to end is not found.' })
+  @ApiNoContentResponse({
+    description: 'Ends the session, revoking its tokens.',
+  })
+  async revokeSession(
+    @Param('id') id: string,
+    @Param('sessionId') sessionId: string
+  ) {
+    await this.sessionService.revoke(sessionId, id)
   }
 
   @Get(':id')
   @Roles(Role.ADMIN)
+  @Scopes(Scope.UsersAdmin)
   @ApiOkResponse({ type: User })
   @Serializer(User)
   async getUser(@Param('id') id: string) {
@@ -143,10 +390,11 @@ export class UsersController {
 
   @Get()
   @Roles(Role.ADMIN)
-  @ApiOkResponse({ type: User, isArray: true })
+  @Scopes(Scope.UsersAdmin)
+  @ApiPaginatedResponse(User)
   @Serializer(User)
-  async getAllUser() {
-    return await this.service.getAllUser()
+  async getAllUser(@Query() query: PaginationQueryDto) {
+    return await this.service.getAllUser(query)
   }
 
   @Put('update/me')
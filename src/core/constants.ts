@@ -1,2 +1,6 @@
 export const ROLE_METADATA = 'roles'
+export const PERMISSION_METADATA = 'permissions'
+export const POLICY_METADATA = 'policy'
 export const SERIALIZER_METADATA = 'serializer'
+export const SCOPE_METADATA = 'scopes'
+export const MAIL_TRANSPORT = 'mail_transport'
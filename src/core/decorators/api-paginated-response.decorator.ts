@@ -0,0 +1,21 @@
+import { applyDecorators, Type } from '@nestjs/common'
+import { ApiExtraModels, ApiOkResponse, getSchemaPath } from '@nestjs/swagger'
+import { Paginated } from '~/types/pagination'
+
+export const ApiPaginatedResponse = (model: Type<any>) => {
+  return applyDecorators(
+    ApiExtraModels(Paginated, model),
+    ApiOkResponse({
+      schema: {
+        allOf: [
+          { $ref: getSchemaPath(Paginated) },
+          {
+            properties: {
+              items: { type: 'array', items: { $ref: getSchemaPath(model) } },
+            },
+          },
+        ],
+      },
+    })
+  )
+}
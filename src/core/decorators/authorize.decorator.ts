@@ -0,0 +1,36 @@
+import { applyDecorators, SetMetadata, Type, UseGuards } from '@nestjs/common'
+import { POLICY_METADATA } from '~/core/constants'
+import { AuthGuard } from '~/guards/auth.guard'
+import { PolicyGuard } from '~/guards/policy.guard'
+import { ResourcePolicy } from '~/policies/resource.policy'
+import { PolicyAction } from '~/enums/PolicyAction'
+import {
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger'
+
+export interface PolicyMetadata {
+  policy: Type<ResourcePolicy<unknown>>
+  action: PolicyAction
+  param: string
+}
+
+/**
+ * Authorizes the action on the resource whose id is the route param.
+ */
+export const Authorize = (
+  policy: Type<ResourcePolicy<unknown>>,
+  action: PolicyAction,
+  param = 'id'
+): MethodDecorator => {
+  return applyDecorators(
+    SetMetadata(POLICY_METADATA, { policy, action, param }),
+    UseGuards(AuthGuard, PolicyGuard),
+    ApiBearerAuth(),
+    ApiUnauthorizedResponse({ description: 'Requires authentication.' }),
+    ApiForbiddenResponse({
+      description: `When the user doesn't have the permission to ${action}.`,
+    })
+  )
+}
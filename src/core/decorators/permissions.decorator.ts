@@ -0,0 +1,17 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common'
+import { PERMISSION_METADATA } from '~/core/constants'
+import { Permission } from '~/enums/Permission'
+import { AuthGuard } from '~/guards/auth.guard'
+import { RolesGuard } from '~/guards/roles.guard'
+import { ApiBearerAuth, ApiForbiddenResponse } from '@nestjs/swagger'
+
+export const Permissions = (
+  ...permissions: Permission[]
+): MethodDecorator & ClassDecorator => {
+  return applyDecorators(
+    SetMetadata(PERMISSION_METADATA, permissions),
+    UseGuards(AuthGuard, RolesGuard),
+    ApiBearerAuth(),
+    ApiForbiddenResponse({ description: "You don't have the permission" })
+  )
+}
@@ -0,0 +1,17 @@
+import { applyDecorators, UseGuards } from '@nestjs/common'
+import { AuthGuard } from '~/guards/auth.guard'
+import { VerifiedGuard } from '~/guards/verified.guard'
+import {
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger'
+
+export const RequireVerified = (): MethodDecorator & ClassDecorator => {
+  return applyDecorators(
+    UseGuards(AuthGuard, VerifiedGuard),
+    ApiBearerAuth(),
+    ApiUnauthorizedResponse({ description: 'Requires authentication.' }),
+    ApiForbiddenResponse({ description: 'Requires a verified email.' })
+  )
+}
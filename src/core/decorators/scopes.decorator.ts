@@ -0,0 +1,15 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common'
+import { SCOPE_METADATA } from '~/core/constants'
+import { ScopesGuard } from '~/guards/scopes.guard'
+import { ApiForbiddenResponse } from '@nestjs/swagger'
+import { Scope } from '~/enums/Scope'
+
+export const Scopes = (
+  ...scopes: Scope[]
+): MethodDecorator & ClassDecorator => {
+  return applyDecorators(
+    SetMetadata(SCOPE_METADATA, scopes),
+    UseGuards(ScopesGuard),
+    ApiForbiddenResponse({ description: 'The access token lacks a scope.' })
+  )
+}
@@ -11,6 +11,7 @@ import { Reflector } from '@nestjs/core'
 import { SERIALIZER_METADATA } from '~/core/constants'
 import { Model } from '~/core/model/base.model'
 import { ClassConstructor } from 'class-transformer'
+import { Paginated } from '~/types/pagination'
 
 @Injectable()
 export class SerializerInterceptor implements NestInterceptor {
@@ -24,6 +25,10 @@ export class SerializerInterceptor implements NestInterceptor {
 
     return next.handle().pipe(
       map((data) => {
+        if (data instanceof Paginated) {
+          return data.map((items) => items.map((item) => new model(item)))
+        }
+
         if (data instanceof Array) {
           return data.map((item) => {
             return new model(item)
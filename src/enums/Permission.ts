@@ -0,0 +1,11 @@
+/**
+ * Actions a role can be granted, administrators hold all of them.
+ */
+export enum Permission {
+  PostUpdateAny = 'post.update.any',
+  PostDeleteAny = 'post.delete.any',
+  CommentModerate = 'comment.moderate',
+  ProfileModerate = 'profile.moderate',
+  TagManage = 'tag.manage',
+  UserUpdateRole = 'user.update.role',
+}
@@ -0,0 +1,4 @@
+export enum PolicyAction {
+  Update = 'update',
+  Delete = 'delete',
+}
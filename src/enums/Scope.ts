@@ -0,0 +1,9 @@
+/**
+ * Capabilities a personal access token can be granted.
+ */
+export enum Scope {
+  PostsRead = 'posts:read',
+  PostsWrite = 'posts:write',
+  CommentsWrite = 'comments:write',
+  UsersAdmin = 'users:admin',
+}
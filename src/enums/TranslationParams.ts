@@ -1,4 +1,5 @@
 export const enum TranslationParams {
   model = 'model',
   min = 'min',
+  max = 'max',
 }
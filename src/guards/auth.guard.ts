@@ -1,20 +1,39 @@
 import {
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
   Injectable,
   UnauthorizedException,
 } from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
 import { isNil } from 'lodash'
+import { SCOPE_METADATA } from '~/core/constants'
 import { Request } from '~/types/http'
 
 @Injectable()
 export class AuthGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
   canActivate(context: ExecutionContext): boolean {
-    const { user } = context.switchToHttp().getRequest<Request>()
+    const { user, scopes } = context.switchToHttp().getRequest<Request>()
     if (isNil(user)) {
       throw new UnauthorizedException(user, 'You must be logged in to proceed.')
     }
 
+    // Personal access tokens only reach the routes with scopes
+    if (!isNil(scopes) && !this.hasScopes(context)) {
+      throw new ForbiddenException('Access tokens are not accepted here.')
+    }
+
     return true
   }
+
+  private hasScopes(context: ExecutionContext): boolean {
+    return !isNil(
+      this.reflector.getAllAndOverride(SCOPE_METADATA, [
+        context.getHandler(),
+        context.getClass(),
+      ])
+    )
+  }
 }
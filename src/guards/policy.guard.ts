@@ -0,0 +1,24 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common'
+import { ModuleRef, Reflector } from '@nestjs/core'
+import { POLICY_METADATA } from '~/core/constants'
+import { Request } from '~/types/http'
+import { PolicyMetadata } from '~/core/decorators/authorize.decorator'
+
+@Injectable()
+export class PolicyGuard implements CanActivate {
+  constructor(private reflector: Reflector, private moduleRef: ModuleRef) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const { policy, action, param } = this.reflector.get<PolicyMetadata>(
+      POLICY_METADATA,
+      context.getHandler()
+    )
+    const req = context.switchToHttp().getRequest<Request>()
+
+    await this.moduleRef
+      .get(policy, { strict: false })
+      .authorize(action, req.user!, req.params[param])
+
+    return true
+  }
+}
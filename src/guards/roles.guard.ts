@@ -5,30 +5,38 @@ import {
   Injectable,
 } from '@nestjs/common'
 import { Reflector } from '@nestjs/core'
-import { ROLE_METADATA } from '~/core/constants'
+import { PERMISSION_METADATA, ROLE_METADATA } from '~/core/constants'
 import { Request } from '~/types/http'
 import { Role } from '@prisma/client'
 import { User } from '~/models/user.model'
 import { isNil } from 'lodash'
+import { Permission } from '~/enums/Permission'
+import { PermissionService } from '~/services/users/permission.service'
 
 @Injectable()
 export class RolesGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private permissionService: PermissionService
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
-    const roles = this.reflector.getAllAndMerge<Role[]>(ROLE_METADATA, [
-      context.getHandler(),
-      context.getClass(),
-    ])
-
-    if (!roles) return true
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()]
+    const roles = this.reflector.getAllAndMerge<Role[]>(ROLE_METADATA, targets)
+    const permissions = this.reflector.getAllAndMerge<Permission[]>(
+      PERMISSION_METADATA,
+      targets
+    )
 
     const { user } = context.switchToHttp().getRequest<Request>()
 
     this.checkUserExists(user)
 
-    if (!this.isAdmin(user!)) {
-      this.checkHaveRole(roles as [], user!)
+    if (this.isAdmin(user!)) {
+      this.permissionService.checkAdminMfa(user!)
+    } else {
+      this.checkHaveRole(roles, user!)
+      await this.checkHavePermissions(permissions, user!)
     }
 
     return true
@@ -46,8 +54,22 @@ export class RolesGuard implements CanActivate {
     return true
   }
 
-  private checkHaveRole(roles: [], user: User): boolean {
-    if (!roles.some((role) => user!.role.includes(role))) {
+  private checkHaveRole(roles: Role[], user: User): boolean {
+    if (roles.length > 0 && !roles.includes(user.role)) {
+      this.throwForbidden()
+    }
+
+    return true
+  }
+
+  private async checkHavePermissions(
+    permissions: Permission[],
+    user: User
+  ): Promise<boolean> {
+    if (
+      permissions.length > 0 &&
+      !(await this.permissionService.hasPermissions(user.role, permissions))
+    ) {
       this.throwForbidden()
     }
 
@@ -0,0 +1,37 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
+import { SCOPE_METADATA } from '~/core/constants'
+import { Request } from '~/types/http'
+import { Scope } from '~/enums/Scope'
+import { isNil } from 'lodash'
+
+@Injectable()
+export class ScopesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const { scopes } = context.switchToHttp().getRequest<Request>()
+
+    // JWT bearer tokens are not limited by scopes
+    if (isNil(scopes)) return true
+
+    const required = this.reflector.getAllAndMerge<Scope[]>(SCOPE_METADATA, [
+      context.getHandler(),
+      context.getClass(),
+    ])
+    const missing = required.filter((scope) => !scopes.includes(scope))
+
+    if (missing.length > 0) {
+      throw new ForbiddenException(
+        `The access token lacks the scopes: ${missing.join(', ')}`
+      )
+    }
+
+    return true
+  }
+}
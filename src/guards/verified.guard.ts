@@ -0,0 +1,19 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common'
+import { Request } from '~/types/http'
+
+@Injectable()
+export class VerifiedGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const { user } = context.switchToHttp().getRequest<Request>()
+    if (!user?.emailVerifiedAt) {
+      throw new ForbiddenException('You must verify your email to proceed.')
+    }
+
+    return true
+  }
+}
@@ -16,11 +16,13 @@ export class AuthMiddleware implements NestMiddleware {
       return next()
     }
 
-    // Verify token and get user
-    const user = await this.authService.verifyAndGetUser(bearerToken!)
-    if (!isNil(user)) {
-      // Attach user to the request
-      req.user = user
+    // Verify token (JWT or personal access token) and get user
+    const auth = await this.authService.authenticate(bearerToken!)
+    if (!isNil(auth)) {
+      // Attach user with its session or scopes to the request
+      req.user = auth.user
+      req.sessionId = auth.sessionId
+      req.scopes = auth.scopes
     }
 
     next()
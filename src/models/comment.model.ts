@@ -0,0 +1,89 @@
+import { Comment as CommentObject } from '@prisma/client'
+import { ApiProperty } from '@nestjs/swagger'
+import { Exclude, Transform } from 'class-transformer'
+import { Model } from '~/core/model/base.model'
+
+export const deletedCommentContent = '[deleted]'
+
+export class Comment extends Model<CommentObject> implements CommentObject {
+  @ApiProperty()
+  id!: string
+
+  @ApiProperty()
+  @Transform(({ value, obj }) =>
+    obj.deletedAt ? deletedCommentContent : value
+  )
+  content!: string
+
+  @ApiProperty()
+  @Transform(({ value }) => value.toString())
+  createdAt!: Date
+
+  @ApiProperty()
+  @Transform(({ value }) => value.toString())
+  updatedAt!: Date
+
+  @ApiProperty()
+  postId!: string
+
+  @ApiProperty({ type: String, nullable: true })
+  @Transform(({ value, obj }) => (obj.deletedAt ? null : value))
+  authorId!: string
+
+  @ApiProperty({ type: String, nullable: true })
+  parentId!: string | null
+
+  @Exclude()
+  deletedAt!: Date | null
+}
+
+/**
+ * A comment in the trash, shown to administrators as it was.
+ */
+export class TrashedComment
+  extends Model<CommentObject>
+  implements CommentObject
+{
+  @ApiProperty()
+  id!: string
+
+  @ApiProperty()
+  content!: string
+
+  @ApiProperty()
+  @Transform(({ value }) => value.toString())
+  createdAt!: Date
+
+  @ApiProperty()
+  @Transform(({ value }) => value.toString())
+  updatedAt!: Date
+
+  @ApiProperty()
+  postId!: string
+
+  @ApiProperty()
+  authorId!: string
+
+  @ApiProperty({ type: String, nullable: true })
+  parentId!: string | null
+
+  @ApiProperty({ type: String })
+  @Transform(({ value }) => value.toString())
+  deletedAt!: Date | null
+}
+
+export class CommentNode extends Comment {
+  @ApiProperty({ type: () => CommentNode, isArray: true })
+  replies: CommentNode[] = []
+
+  @ApiProperty({ description: 'The number of direct replies.' })
+  replyCount = 0
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description:
+      'Cursor for loading more replies of this branch. When the branch is not loaded at all, `replyCount` is greater than the loaded replies and the cursor is null.',
+  })
+  nextCursor: string | null = null
+}
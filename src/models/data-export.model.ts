@@ -0,0 +1,40 @@
+import { Model } from '~/core/model/base.model'
+import {
+  DataExport as DataExportObject,
+  DataExportStatus,
+} from '@prisma/client'
+import { ApiProperty } from '@nestjs/swagger'
+import { Exclude, Transform } from 'class-transformer'
+
+export class DataExport
+  extends Model<DataExportObject>
+  implements DataExportObject
+{
+  @ApiProperty()
+  id!: string
+
+  @ApiProperty()
+  @Transform(({ value }) => value.toString())
+  createdAt!: Date
+
+  @ApiProperty({ enum: DataExportStatus })
+  status!: DataExportStatus
+
+  @ApiProperty({ type: String, nullable: true })
+  @Transform(({ value }) => (value ? value.toString() : null))
+  completedAt!: Date | null
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'The archive cannot be downloaded after this time.',
+  })
+  @Transform(({ value }) => (value ? value.toString() : null))
+  expiresAt!: Date | null
+
+  @ApiProperty()
+  userId!: string
+
+  @Exclude()
+  pendingUserId!: string | null
+}
@@ -0,0 +1,43 @@
+import { Model } from '~/core/model/base.model'
+import { PersonalAccessToken as PersonalAccessTokenObject } from '@prisma/client'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Exclude, Transform } from 'class-transformer'
+import { Scope } from '~/enums/Scope'
+
+export class PersonalAccessToken
+  extends Model<PersonalAccessTokenObject>
+  implements PersonalAccessTokenObject
+{
+  @ApiProperty()
+  id!: string
+
+  @ApiProperty()
+  @Transform(({ value }) => value.toString())
+  createdAt!: Date
+
+  @ApiProperty()
+  name!: string
+
+  @Exclude()
+  tokenHash!: string
+
+  @ApiProperty({ enum: Scope, isArray: true })
+  @Transform(({ value }) => value.split(' '))
+  scopes!: string
+
+  @ApiProperty({ type: String, nullable: true })
+  @Transform(({ value }) => (value ? value.toString() : null))
+  expiresAt!: Date | null
+
+  @ApiProperty({ type: String, nullable: true })
+  @Transform(({ value }) => (value ? value.toString() : null))
+  lastUsedAt!: Date | null
+
+  @ApiProperty()
+  userId!: string
+
+  @ApiPropertyOptional({
+    description: 'The token itself, only returned once on creation.',
+  })
+  token?: string
+}
@@ -1,7 +1,8 @@
-import { Post as PostObject } from '@prisma/client'
+import { Post as PostObject, Tag as TagObject } from '@prisma/client'
 import { ApiProperty } from '@nestjs/swagger'
 import { Exclude, Transform } from 'class-transformer'
 import { Model } from '~/core/model/base.model'
+import { ReactionSummary } from '~/types/reaction'
 
 export class Post extends Model<PostObject> implements PostObject {
   @ApiProperty()
@@ -10,6 +11,22 @@ export class Post extends Model<PostObject> implements PostObject {
   @Exclude()
   published!: boolean
 
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'When the post was last published, null for drafts.',
+  })
+  @Transform(({ value }) => (value ? value.toString() : null))
+  publishedAt!: Date | null
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'When a scheduled draft will be published.',
+  })
+  @Transform(({ value }) => (value ? value.toString() : null))
+  publishAt!: Date | null
+
   @ApiProperty()
   title!: string
 
@@ -26,4 +43,22 @@ export class Post extends Model<PostObject> implements PostObject {
 
   @ApiProperty()
   authorId!: string | null
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'When the post was moved to the trash.',
+  })
+  @Transform(({ value }) => (value ? value.toString() : null))
+  deletedAt!: Date | null
+
+  @ApiProperty({ type: String, isArray: true })
+  @Transform(({ value }) => value?.map((tag: TagObject) => tag.name))
+  tags?: TagObject[]
+
+  @ApiProperty({ type: ReactionSummary })
+  reactions?: ReactionSummary
+
+  @ApiProperty()
+  viewCount?: number
 }
@@ -1,11 +1,15 @@
 import { Model } from '~/core/model/base.model'
-import { ProfileStatus as ProfileStatusObject } from '@prisma/client'
+import {
+  ProfileStatus as ProfileStatusObject,
+  StatusClearInterval,
+} from '@prisma/client'
 import { ApiProperty } from '@nestjs/swagger'
 import { Exclude, Transform } from 'class-transformer'
 
 export class ProfileStatus
   extends Model<ProfileStatusObject>
-  implements ProfileStatusObject {
+  implements ProfileStatusObject
+{
   @ApiProperty()
   id!: string
 
@@ -15,8 +19,12 @@ export class ProfileStatus
   @ApiProperty()
   emoji!: string | null
 
-  @ApiProperty()
-  clearInterval!: number | null
+  @ApiProperty({ enum: StatusClearInterval })
+  clearInterval!: StatusClearInterval
+
+  @ApiProperty({ type: String, nullable: true })
+  @Transform(({ value }) => (value ? value.toString() : null))
+  expiresAt!: Date | null
 
   @ApiProperty()
   @Transform(({ value }) => value.toString())
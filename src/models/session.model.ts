@@ -0,0 +1,38 @@
+import { Model } from '~/core/model/base.model'
+import { Session as SessionObject } from '@prisma/client'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Exclude, Transform } from 'class-transformer'
+
+export class Session extends Model<SessionObject> implements SessionObject {
+  @ApiProperty()
+  id!: string
+
+  @ApiProperty()
+  @Transform(({ value }) => value.toString())
+  createdAt!: Date
+
+  @ApiProperty()
+  @Transform(({ value }) => value.toString())
+  lastUsedAt!: Date
+
+  @ApiProperty()
+  @Transform(({ value }) => value.toString())
+  expiresAt!: Date
+
+  @Exclude()
+  revokedAt!: Date | null
+
+  @ApiProperty({ type: String, nullable: true })
+  userAgent!: string | null
+
+  @ApiProperty({ type: String, nullable: true })
+  ip!: string | null
+
+  @ApiProperty()
+  userId!: string
+
+  @ApiPropertyOptional({
+    description: 'Whether it is the session of the current request.',
+  })
+  current?: boolean
+}
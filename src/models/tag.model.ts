@@ -0,0 +1,16 @@
+import { Tag as TagObject } from '@prisma/client'
+import { ApiProperty } from '@nestjs/swagger'
+import { Model } from '~/core/model/base.model'
+
+export class Tag extends Model<TagObject> implements TagObject {
+  @ApiProperty()
+  id!: string
+
+  @ApiProperty()
+  name!: string
+}
+
+export class TagWithCount extends Tag {
+  @ApiProperty({ description: 'The number of posts using this tag.' })
+  postCount!: number
+}
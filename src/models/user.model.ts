@@ -1,7 +1,9 @@
 import { Role, User as UserObject } from '@prisma/client'
-import { ApiProperty } from '@nestjs/swagger'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
 import { Exclude, Transform } from 'class-transformer'
 import { Model } from '~/core/model/base.model'
+import { ProfileClient } from '~/models/profile.model'
+import { ProfileStatusClient } from '~/models/profile-status.model'
 
 export class User extends Model<UserObject> implements UserObject {
   @ApiProperty()
@@ -29,6 +31,35 @@ export class User extends Model<UserObject> implements UserObject {
 
   @ApiProperty()
   role!: Role
+
+  @Exclude()
+  tokensRevokedAt!: Date | null
+
+  @ApiProperty({ type: String, nullable: true })
+  @Transform(({ value }) => (value ? value.toString() : null))
+  emailVerifiedAt!: Date | null
+
+  @Exclude()
+  totpSecret!: string | null
+
+  @Exclude()
+  totpLastStep!: number | null
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'When two-factor authentication was enabled.',
+  })
+  @Transform(({ value }) => (value ? value.toString() : null))
+  totpEnabledAt!: Date | null
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'When the user was moved to the trash.',
+  })
+  @Transform(({ value }) => (value ? value.toString() : null))
+  deletedAt!: Date | null
 }
 
 export class UserClient extends User {
@@ -40,4 +71,41 @@ export class UserClient extends User {
 
   @Exclude()
   role!: Role
+
+  @Exclude()
+  emailVerifiedAt!: Date | null
+
+  @Exclude()
+  totpEnabledAt!: Date | null
+
+  @Exclude()
+  deletedAt!: Date | null
+
+  @ApiPropertyOptional({
+    description: 'Whether the current viewer follows this user.',
+  })
+  isFollowing?: boolean
+}
+
+export class UserSummary extends UserClient {
+  @ApiProperty({ type: ProfileClient, nullable: true })
+  profile!: ProfileClient | null
+
+  @ApiProperty({ type: ProfileStatusClient, nullable: true })
+  status!: ProfileStatusClient | null
+
+  @ApiProperty()
+  followerCount!: number
+
+  @ApiProperty()
+  followingCount!: number
+
+  @ApiProperty({ description: 'The number of published posts.' })
+  postCount!: number
+
+  @ApiProperty()
+  commentCount!: number
+
+  @ApiProperty({ description: "Reactions received on the user's content." })
+  reactionCount!: number
 }
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common'
+import { CommentsService } from '~/services/comments.service'
+import { CommentsController } from '~/controllers/comments.controller'
+
+@Module({
+  providers: [CommentsService],
+  controllers: [CommentsController],
+  exports: [CommentsService],
+})
+export class CommentsModule {}
@@ -1,5 +1,6 @@
 import { Global, Module } from '@nestjs/common'
 import { HashService } from '~/services/security/hash.service'
+import { TotpService } from '~/services/security/totp.service'
 import { DatabaseModule } from '~/modules/database.module'
 import {
   I18nJsonParser,
@@ -28,7 +29,7 @@ import { ConfigKey, I18nConfig } from '~/config/config.interface'
       inject: [ConfigService],
     }),
   ],
-  providers: [HashService],
-  exports: [DatabaseModule, HashService],
+  providers: [HashService, TotpService],
+  exports: [DatabaseModule, HashService, TotpService],
 })
 export class CoreModule {}
@@ -0,0 +1,27 @@
+import { Global, Module } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { MAIL_TRANSPORT } from '~/core/constants'
+import { ConfigKey, MailConfig } from '~/config/config.interface'
+import { MailService } from '~/services/mail/mail.service'
+import { SmtpTransport } from '~/services/mail/smtp.transport'
+import { LogTransport } from '~/services/mail/log.transport'
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: (configService: ConfigService) => {
+        const config = configService.get<MailConfig>(ConfigKey.Mail)
+
+        return config?.transport === 'smtp'
+          ? new SmtpTransport(config.smtp)
+          : new LogTransport(config?.logDir)
+      },
+      inject: [ConfigService],
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -1,9 +1,14 @@
 import { Module } from '@nestjs/common'
 import { PostsService } from '~/services/posts.service'
+import { PublishSchedulerService } from '~/services/publish-scheduler.service'
 import { PostsController } from '~/controllers/posts.controller'
+import { TagsModule } from '~/modules/tags.module'
+import { ReactionsModule } from '~/modules/reactions.module'
+import { ViewsModule } from '~/modules/views.module'
 
 @Module({
-  providers: [PostsService],
+  imports: [TagsModule, ReactionsModule, ViewsModule],
+  providers: [PostsService, PublishSchedulerService],
   controllers: [PostsController],
   exports: [PostsService],
 })
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common'
+import { ReactionsService } from '~/services/reactions.service'
+import { ReactionsController } from '~/controllers/reactions.controller'
+
+@Module({
+  providers: [ReactionsService],
+  controllers: [ReactionsController],
+  exports: [ReactionsService],
+})
+export class ReactionsModule {}
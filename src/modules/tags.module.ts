@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common'
+import { TagService } from '~/services/tags/tag.service'
+import { AdminTagService } from '~/services/tags/admin.service'
+import { TagsController } from '~/controllers/tags.controller'
+
+@Module({
+  providers: [TagService, AdminTagService],
+  controllers: [TagsController],
+  exports: [TagService, AdminTagService],
+})
+export class TagsModule {}
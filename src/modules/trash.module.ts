@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common'
+import { TrashService } from '~/services/trash.service'
+import { TrashPurgerService } from '~/services/trash-purger.service'
+import { TrashController } from '~/controllers/trash.controller'
+import { UserModule } from '~/modules/user.module'
+
+@Module({
+  imports: [UserModule],
+  providers: [TrashService, TrashPurgerService],
+  controllers: [TrashController],
+  exports: [TrashService],
+})
+export class TrashModule {}
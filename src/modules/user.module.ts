@@ -1,11 +1,26 @@
 import { Module } from '@nestjs/common'
 import { AdminUserService } from '~/services/users/admin.service'
 import { UsersController } from '~/controllers/users/users.controller'
+import { RolesController } from '~/controllers/users/roles.controller'
 import { UserService } from '~/services/users/user.service'
+import { FollowService } from '~/services/users/follow.service'
+import { AccountDeletionService } from '~/services/users/account-deletion.service'
+import { DataExportService } from '~/services/users/data-export.service'
+import { DataExportBuilderService } from '~/services/users/data-export-builder.service'
+import { ReactionsModule } from '~/modules/reactions.module'
+import { ProfileModule } from '~/modules/users/profile.module'
 
 @Module({
-  providers: [AdminUserService, UserService],
-  controllers: [UsersController],
-  exports: [AdminUserService, UserService],
+  imports: [ReactionsModule, ProfileModule],
+  providers: [
+    AdminUserService,
+    UserService,
+    FollowService,
+    AccountDeletionService,
+    DataExportService,
+    DataExportBuilderService,
+  ],
+  controllers: [UsersController, RolesController],
+  exports: [AdminUserService, UserService, FollowService, DataExportService],
 })
 export class UserModule {}
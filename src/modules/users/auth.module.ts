@@ -5,6 +5,16 @@ import { AuthService } from '~/services/users/auth.service'
 import { PassportModule } from '@nestjs/passport'
 import { ConfigKey, SecurityConfig } from '~/config/config.interface'
 import { AuthController } from '~/controllers/users/auth.controller'
+import { SessionService } from '~/services/users/session.service'
+import { PasswordResetService } from '~/services/users/password-reset.service'
+import { EmailVerificationService } from '~/services/users/email-verification.service'
+import { MfaService } from '~/services/users/mfa.service'
+import { LoginThrottleService } from '~/services/users/login-throttle.service'
+import { PersonalAccessTokenService } from '~/services/users/personal-access-token.service'
+import { PermissionService } from '~/services/users/permission.service'
+import { PostPolicy } from '~/policies/post.policy'
+import { CommentPolicy } from '~/policies/comment.policy'
+import { ProfilePolicy } from '~/policies/profile.policy'
 
 @Global()
 @Module({
@@ -24,8 +34,32 @@ import { AuthController } from '~/controllers/users/auth.controller'
       inject: [ConfigService],
     }),
   ],
-  providers: [AuthService],
+  providers: [
+    AuthService,
+    SessionService,
+    PasswordResetService,
+    EmailVerificationService,
+    MfaService,
+    LoginThrottleService,
+    PersonalAccessTokenService,
+    PermissionService,
+    PostPolicy,
+    CommentPolicy,
+    ProfilePolicy,
+  ],
   controllers: [AuthController],
-  exports: [AuthService],
+  exports: [
+    AuthService,
+    SessionService,
+    PasswordResetService,
+    EmailVerificationService,
+    MfaService,
+    LoginThrottleService,
+    PersonalAccessTokenService,
+    PermissionService,
+    PostPolicy,
+    CommentPolicy,
+    ProfilePolicy,
+  ],
 })
 export class AuthModule {}
@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common'
 import { ProfileService } from '~/services/users/profile.service'
 import { ProfileStatusService } from '~/services/users/status.service'
+import { StatusSweeperService } from '~/services/users/status-sweeper.service'
 import { ProfileController } from '~/controllers/users/profile.controller'
 
 @Module({
-  providers: [ProfileService, ProfileStatusService],
+  providers: [ProfileService, ProfileStatusService, StatusSweeperService],
   controllers: [ProfileController],
   exports: [ProfileService, ProfileStatusService],
 })
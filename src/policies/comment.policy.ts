@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common'
+import { Comment, User } from '@prisma/client'
+import { ResourcePolicy } from '~/policies/resource.policy'
+import { Permission } from '~/enums/Permission'
+import { PolicyAction } from '~/enums/PolicyAction'
+import { notDeleted } from '~/services/common/filters'
+
+@Injectable()
+export class CommentPolicy extends ResourcePolicy<Comment> {
+  protected readonly overrides = {
+    [PolicyAction.Update]: Permission.CommentModerate,
+    [PolicyAction.Delete]: Permission.CommentModerate,
+  }
+
+  protected getLangUseModel(): string {
+    return 'Comment'
+  }
+
+  protected async find(id: string): Promise<Comment | null> {
+    return await this.db.comment.findFirst({
+      where: { id, ...notDeleted, post: notDeleted },
+    })
+  }
+
+  protected isOwner(user: User, comment: Comment): boolean {
+    return comment.authorId === user.id
+  }
+}
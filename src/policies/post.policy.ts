@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common'
+import { Post, User } from '@prisma/client'
+import { ResourcePolicy } from '~/policies/resource.policy'
+import { Permission } from '~/enums/Permission'
+import { PolicyAction } from '~/enums/PolicyAction'
+import { notDeleted } from '~/services/common/filters'
+
+@Injectable()
+export class PostPolicy extends ResourcePolicy<Post> {
+  protected readonly overrides = {
+    [PolicyAction.Update]: Permission.PostUpdateAny,
+    [PolicyAction.Delete]: Permission.PostDeleteAny,
+  }
+
+  protected getLangUseModel(): string {
+    return 'Post'
+  }
+
+  protected async find(id: string): Promise<Post | null> {
+    return await this.db.post.findFirst({ where: { id, ...notDeleted } })
+  }
+
+  protected isOwner(user: User, post: Post): boolean {
+    return post.authorId === user.id
+  }
+}
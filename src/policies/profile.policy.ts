@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common'
+import { Profile, User } from '@prisma/client'
+import { ResourcePolicy } from '~/policies/resource.policy'
+import { Permission } from '~/enums/Permission'
+import { PolicyAction } from '~/enums/PolicyAction'
+
+@Injectable()
+export class ProfilePolicy extends ResourcePolicy<Profile> {
+  protected readonly overrides = {
+    [PolicyAction.Update]: Permission.ProfileModerate,
+    [PolicyAction.Delete]: Permission.ProfileModerate,
+  }
+
+  protected getLangUseModel(): string {
+    return 'Profile'
+  }
+
+  protected async find(id: string): Promise<Profile | null> {
+    return await this.db.profile.findUnique({ where: { id } })
+  }
+
+  protected isOwner(user: User, profile: Profile): boolean {
+    return profile.userId === user.id
+  }
+}
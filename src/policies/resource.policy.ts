@@ -0,0 +1,93 @@
+import { ForbiddenException, Inject, NotFoundException } from '@nestjs/common'
+import { User } from '@prisma/client'
+import { CoreService } from '~/services/common/core.service'
+import { PermissionService } from '~/services/users/permission.service'
+import { Permission } from '~/enums/Permission'
+import { PolicyAction } from '~/enums/PolicyAction'
+
+/**
+ * Decides who may act on a resource: its owner,
+ * or the roles granted the permission to override the owner.
+ */
+export abstract class ResourcePolicy<T> extends CoreService {
+  @Inject()
+  private readonly permissionService!: PermissionService
+
+  /**
+   * The permission overriding the owner for each action.
+   */
+  protected abstract readonly overrides: Record<PolicyAction, Permission>
+
+  /**
+   * Finds the resource by id.
+   *
+   * @param id
+   */
+  protected abstract find(id: string): Promise<T | null>
+
+  /**
+   * Checks the user owns the resource.
+   *
+   * @param user
+   * @param resource
+   */
+  protected abstract isOwner(user: User, resource: T): boolean
+
+  async canUpdate(user: User, resource: T): Promise<boolean> {
+    return await this.can(PolicyAction.Update, user, resource)
+  }
+
+  async canDelete(user: User, resource: T): Promise<boolean> {
+    return await this.can(PolicyAction.Delete, user, resource)
+  }
+
+  /**
+   * Checks the user may take the action on the resource.
+   *
+   * @param action
+   * @param user
+   * @param resource
+   *
+   * @throws ForbiddenException when an administrator overriding the owner
+   * lacks the required two-factor authentication
+   */
+  async can(action: PolicyAction, user: User, resource: T): Promise<boolean> {
+    if (this.isOwner(user, resource)) {
+      return true
+    }
+
+    this.permissionService.checkAdminMfa(user)
+
+    return await this.permissionService.hasPermissions(user.role, [
+      this.overrides[action],
+    ])
+  }
+
+  /**
+   * Finds the resource which the user may take the action on.
+   *
+   * @param action
+   * @param user
+   * @param id
+   *
+   * @throws NotFoundException
+   * @throws ForbiddenException
+   */
+  async authorize(action: PolicyAction, user: User, id: string): Promise<T> {
+    const resource = await this.find(id)
+
+    if (!resource) {
+      throw new NotFoundException(
+        await this.lang.get('error.not_found.id', { args: { id } })
+      )
+    }
+
+    if (!(await this.can(action, user, resource))) {
+      throw new ForbiddenException(
+        await this.lang.get(`error.forbidden.${action}`)
+      )
+    }
+
+    return resource
+  }
+}
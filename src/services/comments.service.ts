@@ -0,0 +1,286 @@
+import { Injectable, NotFoundException } from '@nestjs/common'
+import {
+  CommentRepliesQueryDto,
+  CommentTreeQueryDto,
+  CreateCommentDto,
+  UpdateCommentDto,
+} from '~/types/comment'
+import modelFactory from '~/core/model/model.factory'
+import { Comment, CommentNode } from '~/models/comment.model'
+import { CoreService } from '~/services/common/core.service'
+import {
+  notDeleted,
+  publishedPost,
+  visibleComment,
+} from '~/services/common/filters'
+import { CommentConfig, ConfigKey } from '~/config/config.interface'
+import { groupBy } from 'lodash'
+import { Paginated, PaginationQueryDto } from '~/types/pagination'
+
+@Injectable()
+export class CommentsService extends CoreService {
+  protected getLangUseModel(): string {
+    return 'Comment'
+  }
+
+  /**
+   * Creates a comment (or a reply to another comment) on a published post.
+   *
+   * @param data
+   * @param postId
+   * @param authorId
+   */
+  async create(
+    { parentId, ...data }: CreateCommentDto,
+    postId: string,
+    authorId: string
+  ) {
+    await this.checkPostExists(postId)
+
+    if (parentId) {
+      await this.checkParentExists(parentId, postId)
+    }
+
+    return new Comment(
+      await this.db.comment.create({
+        data: {
+          ...data,
+          postId,
+          authorId,
+          parentId,
+        },
+      })
+    )
+  }
+
+  /**
+   * Updates a comment.
+   *
+   * @param data
+   * @param id
+   */
+  async update(data: UpdateCommentDto, id: string): Promise<Comment> {
+    const comment = await this.db.comment.findFirst({
+      where: { id, ...notDeleted },
+    })
+
+    if (!comment) {
+      throw new NotFoundException(
+        await this.lang.get('error.not_found.id', { args: { id } })
+      )
+    }
+
+    return new Comment(
+      await this.db.comment.update({
+        where: { id },
+        data,
+      })
+    )
+  }
+
+  /**
+   * Moves a comment to the trash by id. While it still has replies,
+   * it is shown as a tombstone to keep its subtree.
+   *
+   * @param id
+   */
+  async delete(id: string) {
+    const { count } = await this.db.comment.updateMany({
+      where: { id, ...notDeleted },
+      data: { deletedAt: new Date() },
+    })
+
+    if (count === 0) {
+      throw new NotFoundException(
+        await this.lang.get('error.not_found.id', { args: { id } })
+      )
+    }
+  }
+
+  /**
+   * Gets a page of the comments of a published post (oldest first).
+   *
+   * @param postId
+   * @param query
+   */
+  async getAllByPost(postId: string, query: PaginationQueryDto) {
+    await this.checkPostExists(postId)
+
+    const page = await this.paginate(query, (args) =>
+      this.db.comment.findMany({
+        where: { postId, ...visibleComment },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        ...args,
+      })
+    )
+
+    return page.map((items) => modelFactory.makeAll(Comment, items))
+  }
+
+  /**
+   * Gets the comments of a published post as a tree.
+   *
+   * @param postId
+   * @param query
+   */
+  async getTree(postId: string, query: CommentTreeQueryDto) {
+    await this.checkPostExists(postId)
+
+    const roots = (
+      await this.db.comment.findMany({
+        where: { postId, parentId: null, ...visibleComment },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      })
+    ).map((comment) => new CommentNode(comment))
+
+    await this.loadReplies(roots, this.resolveDepth(query.depth) - 1)
+
+    return roots
+  }
+
+  /**
+   * Loads more replies of a comment, starting after the cursor.
+   *
+   * @param id
+   * @param cursor
+   * @param limit
+   * @param depth
+   */
+  async getReplies(
+    id: string,
+    {
+      cursor,
+      limit = this.getConfig().repliesLimit,
+      depth,
+    }: CommentRepliesQueryDto
+  ): Promise<Paginated<CommentNode>> {
+    const comment = await this.db.comment.findFirst({
+      where: { id, ...visibleComment, post: publishedPost },
+    })
+
+    if (!comment) {
+      throw new NotFoundException(
+        await this.lang.get('error.not_found.id', { args: { id } })
+      )
+    }
+
+    const page = await this.paginate({ cursor, limit }, (args) =>
+      this.db.comment.findMany({
+        where: { parentId: id, ...visibleComment },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        ...args,
+      })
+    )
+    const replies = page.map((items) =>
+      items.map((reply) => new CommentNode(reply))
+    )
+
+    await this.loadReplies(replies.items, this.resolveDepth(depth) - 1)
+
+    return replies
+  }
+
+  /**
+   * Attaches reply counts to the nodes and, while depth remains,
+   * the first page of their replies level by level.
+   *
+   * @param nodes
+   * @param depth
+   * @private
+   */
+  private async loadReplies(nodes: CommentNode[], depth: number) {
+    if (nodes.length === 0) {
+      return
+    }
+
+    const ids = nodes.map((node) => node.id)
+    const counts = await this.db.comment.groupBy({
+      by: ['parentId'],
+      where: { parentId: { in: ids }, ...visibleComment },
+      _count: { _all: true },
+    })
+
+    for (const node of nodes) {
+      const count = counts.find((item) => item.parentId === node.id)
+      node.replyCount = count ? count._count._all : 0
+    }
+
+    if (depth <= 0) {
+      return
+    }
+
+    const limit = this.getConfig().repliesLimit
+    const replies = groupBy(
+      await this.db.comment.findMany({
+        where: { parentId: { in: ids }, ...visibleComment },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      }),
+      'parentId'
+    )
+
+    const children: CommentNode[] = []
+
+    for (const node of nodes) {
+      const branch = replies[node.id] || []
+
+      node.replies = branch
+        .slice(0, limit)
+        .map((reply) => new CommentNode(reply))
+      node.nextCursor =
+        branch.length > limit ? node.replies[limit - 1].id : null
+
+      children.push(...node.replies)
+    }
+
+    await this.loadReplies(children, depth - 1)
+  }
+
+  private resolveDepth(depth?: number) {
+    const config = this.getConfig()
+
+    return Math.min(depth || config.defaultDepth, config.maxDepth)
+  }
+
+  private getConfig() {
+    return this.config.get<CommentConfig>(ConfigKey.Comment)!
+  }
+
+  /**
+   * Makes sure the published post exists.
+   *
+   * @param id
+   * @private
+   */
+  private async checkPostExists(id: string) {
+    const post = await this.db.post.findFirst({
+      where: { id, ...publishedPost },
+    })
+
+    if (!post) {
+      throw new NotFoundException(
+        await this.lang.get('error.not_found.id', {
+          args: { id, model: 'Post' },
+        })
+      )
+    }
+  }
+
+  /**
+   * Makes sure the comment to reply exists on the same post.
+   *
+   * @param id
+   * @param postId
+   * @private
+   */
+  private async checkParentExists(id: string, postId: string) {
+    const parent = await this.db.comment.findFirst({
+      where: { id, postId, ...notDeleted },
+    })
+
+    if (!parent) {
+      throw new NotFoundException(
+        await this.lang.get('error.not_found.id', { args: { id } })
+      )
+    }
+  }
+}
@@ -4,6 +4,12 @@ import { Inject, OnModuleInit } from '@nestjs/common'
 import { ConfigKey, I18nConfig } from '~/config/config.interface'
 import { ConfigService } from '@nestjs/config'
 import { DatabaseService } from '~/services/database.service'
+import {
+  defaultPageLimit,
+  PageArgs,
+  Paginated,
+  PaginationQueryDto,
+} from '~/types/pagination'
 
 export class CoreService implements OnModuleInit {
   protected lang!: LangService
@@ -34,6 +40,31 @@ export class CoreService implements OnModuleInit {
     return 'Model'
   }
 
+  /**
+   * Fetches one page by id cursor. The finder must pass the page args
+   * to `findMany` and order the rows stably (ending with id).
+   *
+   * @param cursor
+   * @param limit
+   * @param find
+   * @protected
+   */
+  protected async paginate<T extends { id: string }>(
+    { cursor, limit = defaultPageLimit }: PaginationQueryDto,
+    find: (args: PageArgs) => Promise<T[]>
+  ): Promise<Paginated<T>> {
+    const rows = await find({
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    })
+    const items = rows.slice(0, limit)
+
+    return new Paginated(
+      items,
+      rows.length > limit ? items[items.length - 1].id : null
+    )
+  }
+
   /**
    * Gets language service use default lang
    * TODO: Can set user's profile lang in Custom Service
@@ -0,0 +1,25 @@
+import { Prisma } from '@prisma/client'
+
+/*
+ * The where fragments of the default queries, keeping the rows in the trash
+ * out of them. Spread them into the queries of users, posts and comments;
+ * raw queries have to check `deletedAt IS NULL` themselves.
+ */
+
+export const notDeleted = { deletedAt: null }
+
+/**
+ * The posts shown to everyone.
+ */
+export const publishedPost: Prisma.PostWhereInput = {
+  published: true,
+  ...notDeleted,
+}
+
+/**
+ * Deleted comments are only shown as tombstones while they have replies
+ * which are not deleted.
+ */
+export const visibleComment: Prisma.CommentWhereInput = {
+  OR: [notDeleted, { replies: { some: notDeleted } }],
+}
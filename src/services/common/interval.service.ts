@@ -0,0 +1,73 @@
+import {
+  Inject,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+
+/**
+ * Runs a background job in-process: once on boot, then every interval.
+ * A run is skipped while the previous one is still busy.
+ */
+export abstract class IntervalService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  protected readonly logger = new Logger(this.constructor.name)
+
+  private timer?: NodeJS.Timeout
+
+  private running = false
+
+  @Inject()
+  protected readonly config!: ConfigService
+
+  async onApplicationBootstrap() {
+    await this.tick()
+
+    this.timer = setInterval(
+      () => this.tick(),
+      this.getIntervalSeconds() * 1000
+    )
+    this.timer.unref()
+  }
+
+  onApplicationShutdown() {
+    if (this.timer) {
+      clearInterval(this.timer)
+    }
+  }
+
+  /**
+   * Runs the job once, logging instead of throwing on failure.
+   */
+  async tick() {
+    if (this.running) {
+      return
+    }
+
+    this.running = true
+
+    try {
+      await this.run()
+    } catch (e) {
+      this.logger.error(e.message, e.stack)
+    } finally {
+      this.running = false
+    }
+  }
+
+  /**
+   * Gets how many seconds to wait between runs.
+   *
+   * @protected
+   */
+  protected abstract getIntervalSeconds(): number
+
+  /**
+   * Runs the job.
+   *
+   * @protected
+   */
+  protected abstract run(): Promise<void>
+}
@@ -0,0 +1,26 @@
+import { Logger } from '@nestjs/common'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { MailMessage, MailTransport } from '~/types/mail'
+
+/**
+ * Logs mails instead of delivering them, for local development and tests.
+ * When a directory is given, each mail is also written there as a JSON file.
+ */
+export class LogTransport implements MailTransport {
+  private readonly logger = new Logger(LogTransport.name)
+
+  constructor(private readonly dir?: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    this.logger.log(`Mail "${message.subject}" to ${message.to}`)
+
+    if (this.dir) {
+      await fs.mkdir(this.dir, { recursive: true })
+      await fs.writeFile(
+        path.join(this.dir, `${Date.now()}-${message.to}.json`),
+        JSON.stringify(message, null, 2)
+      )
+    }
+  }
+}
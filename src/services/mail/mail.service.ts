@@ -0,0 +1,26 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { MAIL_TRANSPORT } from '~/core/constants'
+import { ConfigKey, MailConfig } from '~/config/config.interface'
+import { MailMessage, MailTransport } from '~/types/mail'
+
+@Injectable()
+export class MailService {
+  @Inject(MAIL_TRANSPORT)
+  private readonly transport!: MailTransport
+
+  @Inject()
+  private readonly config!: ConfigService
+
+  /**
+   * Sends a mail through the configured transport.
+   *
+   * @param message
+   */
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({
+      from: this.config.get<MailConfig>(ConfigKey.Mail)?.from as string,
+      ...message,
+    })
+  }
+}
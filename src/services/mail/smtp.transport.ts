@@ -0,0 +1,23 @@
+import { createTransport, Transporter } from 'nodemailer'
+import { MailMessage, MailTransport } from '~/types/mail'
+import { SmtpConfig } from '~/config/config.interface'
+
+/**
+ * Delivers mails through an SMTP server.
+ */
+export class SmtpTransport implements MailTransport {
+  private readonly transporter: Transporter
+
+  constructor({ host, port, secure, user, password }: SmtpConfig) {
+    this.transporter = createTransport({
+      host,
+      port,
+      secure,
+      auth: user ? { user, pass: password } : undefined,
+    })
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message)
+  }
+}
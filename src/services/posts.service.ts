@@ -1,5 +1,6 @@
 import {
   BadRequestException,
+  Inject,
   Injectable,
   NotFoundException,
 } from '@nestjs/common'
@@ -7,9 +8,24 @@ import { CreatePostDto, UpdatePostDto } from '~/types/post'
 import modelFactory from '~/core/model/model.factory'
 import { Post } from '~/models/post.model'
 import { CoreService } from '~/services/common/core.service'
+import { notDeleted, publishedPost } from '~/services/common/filters'
+import { TagService } from '~/services/tags/tag.service'
+import { ReactionsService } from '~/services/reactions.service'
+import { ViewsService } from '~/services/views.service'
+import { ViewerInfo } from '~/types/view'
+import { Paginated, PaginationQueryDto } from '~/types/pagination'
 
 @Injectable()
 export class PostsService extends CoreService {
+  @Inject()
+  private readonly tagService!: TagService
+
+  @Inject()
+  private readonly reactions!: ReactionsService
+
+  @Inject()
+  private readonly views!: ViewsService
+
   protected getLangUseModel(): string {
     return 'Post'
   }
@@ -20,13 +36,25 @@ export class PostsService extends CoreService {
    * @param data
    * @param authorId
    */
-  async create(data: CreatePostDto, authorId: string) {
+  async create(
+    { tags, published, publishAt, ...data }: CreatePostDto,
+    authorId: string
+  ) {
+    const schedule = await this.resolveSchedule(published, publishAt)
+
     return new Post(
       await this.db.post.create({
         data: {
           ...data,
+          published: schedule.published!,
+          publishedAt: schedule.published ? new Date() : null,
+          publishAt: schedule.publishAt,
           authorId,
+          tags: tags
+            ? { connectOrCreate: this.tagService.connectOrCreate(tags) }
+            : undefined,
         },
+        include: { tags: true },
       })
     )
   }
@@ -36,43 +64,94 @@ export class PostsService extends CoreService {
    *
    * @param data
    * @param id
-   * @param authorId
    */
   async update(
-    data: UpdatePostDto,
-    id: string,
-    authorId: string
+    { tags, published, publishAt, ...data }: UpdatePostDto,
+    id: string
   ): Promise<Post | undefined> {
-    const post = await this.db.post.findFirst({ where: { id } })
+    const post = await this.findOrFail(id)
+    const schedule = await this.resolveSchedule(published, publishAt, post)
 
-    if (!post) {
-      throw new NotFoundException(
-        await this.lang.get('error.not_found.id', { args: { id } })
-      )
-    }
+    return new Post(
+      await this.db.post.update({
+        where: { id },
+        data: {
+          ...data,
+          ...schedule,
+          publishedAt: this.resolvePublishedAt(post, schedule.published),
+          tags: tags
+            ? {
+                set: [],
+                connectOrCreate: this.tagService.connectOrCreate(tags),
+              }
+            : undefined,
+        },
+        include: { tags: true },
+      })
+    )
+  }
 
-    if (post.authorId !== authorId) {
-      throw new BadRequestException(
-        await this.lang.get('error.bad_request.update')
-      )
-    }
+  /**
+   * Publishes or unpublishes a post.
+   *
+   * @param id
+   * @param published
+   */
+  async setPublished(id: string, published: boolean) {
+    return this.update({ published }, id)
+  }
+
+  /**
+   * Cancels the scheduled publishing of a post, keeping it as a draft.
+   *
+   * @param id
+   */
+  async cancelSchedule(id: string) {
+    await this.findOrFail(id)
 
     return new Post(
       await this.db.post.update({
         where: { id },
-        data: data,
+        data: { publishAt: null },
+        include: { tags: true },
       })
     )
   }
 
   /**
-   * Deletes a post by id.
+   * Moves a post to the trash by id.
+   * It is purged once the retention period is over.
    *
    * @param id
-   * @param authorId
    */
-  async delete(id: string, authorId: string) {
-    const post = await this.db.post.findUnique({ where: { id } })
+  async delete(id: string) {
+    await this.findOrFail(id)
+
+    await this.db.post.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    })
+  }
+
+  /**
+   * Finds a post by id, which is either published
+   * or an unpublished post of the viewer.
+   *
+   * @param id post_id
+   * @param viewerId
+   */
+  async findById(id: string, viewerId?: string) {
+    const post = await this.db.post.findFirst({
+      where: {
+        id,
+        ...notDeleted,
+        OR: [
+          { published: true },
+          ...(viewerId ? [{ authorId: viewerId }] : []),
+        ],
+      },
+      include: { tags: true },
+    })
 
     if (!post) {
       throw new NotFoundException(
@@ -80,30 +159,148 @@ export class PostsService extends CoreService {
       )
     }
 
-    if (post.authorId !== authorId) {
-      throw new BadRequestException(
-        await this.lang.get('error.bad_request.delete')
-      )
+    const [result] = await this.attachStats([new Post(post)], viewerId)
+
+    return result
+  }
+
+  /**
+   * Finds a post by id and records the view.
+   *
+   * @param id
+   * @param viewer
+   */
+  async view(id: string, viewer: ViewerInfo) {
+    const post = await this.findById(id, viewer.userId)
+
+    if (!post.published) {
+      return post
     }
 
-    try {
-      await this.db.post.delete({ where: { id } })
-    } catch (e) {
-      throw new Error(e)
+    if (await this.views.recordPostView(post.id, viewer)) {
+      post.viewCount! += 1
     }
+
+    return post
   }
 
   /**
-   * Finds a post by id.
+   * Gets a page of published posts (latest published first).
    *
-   * @param id post_id
+   * @param query
+   * @param viewerId
    */
-  async findById(id: string) {
-    const post = await this.db.post.findFirst({
+  async getAll(
+    query: PaginationQueryDto,
+    viewerId?: string
+  ): Promise<Paginated<Post>> {
+    const page = await this.paginate(query, (args) =>
+      this.db.post.findMany({
+        where: {
+          ...publishedPost,
+        },
+        include: { tags: true },
+        orderBy: [{ publishedAt: 'desc' }, { id: 'desc' }],
+        ...args,
+      })
+    )
+
+    return new Paginated(
+      await this.attachStats(modelFactory.makeAll(Post, page.items), viewerId),
+      page.nextCursor
+    )
+  }
+
+  /**
+   * Gets a page of unpublished posts of the author (last edited first).
+   *
+   * @param query
+   * @param authorId
+   */
+  async getDrafts(
+    query: PaginationQueryDto,
+    authorId: string
+  ): Promise<Paginated<Post>> {
+    const page = await this.paginate(query, (args) =>
+      this.db.post.findMany({
+        where: {
+          authorId,
+          published: false,
+          ...notDeleted,
+        },
+        include: { tags: true },
+        orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+        ...args,
+      })
+    )
+
+    return page.map((items) => modelFactory.makeAll(Post, items))
+  }
+
+  /**
+   * Gets a page of scheduled drafts of the author (due first).
+   *
+   * @param query
+   * @param authorId
+   */
+  async getScheduled(
+    query: PaginationQueryDto,
+    authorId: string
+  ): Promise<Paginated<Post>> {
+    const page = await this.paginate(query, (args) =>
+      this.db.post.findMany({
+        where: {
+          authorId,
+          published: false,
+          publishAt: { not: null },
+          ...notDeleted,
+        },
+        include: { tags: true },
+        orderBy: [{ publishAt: 'asc' }, { id: 'asc' }],
+        ...args,
+      })
+    )
+
+    return page.map((items) => modelFactory.makeAll(Post, items))
+  }
+
+  /**
+   * Publishes all scheduled drafts which are due,
+   * using their scheduled time as the publish time.
+   *
+   * @return the number of published posts
+   */
+  async publishDue(): Promise<number> {
+    const posts = await this.db.post.findMany({
       where: {
-        id,
-        published: true,
+        published: false,
+        publishAt: { lte: new Date() },
+        ...notDeleted,
       },
+      select: { id: true, publishAt: true },
+    })
+
+    await this.db.$transaction(
+      posts.map(({ id, publishAt }) =>
+        this.db.post.updateMany({
+          where: { id, published: false },
+          data: { published: true, publishedAt: publishAt, publishAt: null },
+        })
+      )
+    )
+
+    return posts.length
+  }
+
+  /**
+   * Finds a post by id, whoever the author is.
+   *
+   * @param id
+   * @private
+   */
+  private async findOrFail(id: string) {
+    const post = await this.db.post.findFirst({
+      where: { id, ...notDeleted },
     })
 
     if (!post) {
@@ -112,20 +309,82 @@ export class PostsService extends CoreService {
       )
     }
 
-    return new Post(post)
+    return post
   }
 
   /**
-   * Gets all posts.
+   * Resolves the published state and the schedule:
+   * a publish time keeps the post as a draft until then,
+   * publishing right away drops the schedule.
+   *
+   * @param published
+   * @param publishAt
+   * @param post the post to update, if any
+   * @private
+   *
+   * @throws BadRequestException when scheduling a post published already,
+   * or now
    */
-  async getAll() {
-    return modelFactory.makeAll(
-      Post,
-      await this.db.post.findMany({
-        where: {
-          published: true,
-        },
-      })
-    )
+  private async resolveSchedule(
+    published?: boolean,
+    publishAt?: Date,
+    post?: { published: boolean }
+  ) {
+    if (!publishAt) {
+      return { published, publishAt: published ? null : undefined }
+    }
+
+    if (published || (post?.published && published === undefined)) {
+      throw new BadRequestException(
+        await this.lang.get('error.bad_request.publish_at_published')
+      )
+    }
+
+    if (publishAt.getTime() <= Date.now()) {
+      throw new BadRequestException(
+        await this.lang.get('error.bad_request.publish_at')
+      )
+    }
+
+    return { published: false, publishAt }
+  }
+
+  /**
+   * Gets the new publish time when the published state changes:
+   * a fresh timestamp on publish, null on unpublish.
+   *
+   * @param post
+   * @param published
+   * @private
+   */
+  private resolvePublishedAt(
+    post: { published: boolean },
+    published?: boolean
+  ): Date | null | undefined {
+    if (published === undefined || published === post.published) {
+      return undefined
+    }
+
+    return published ? new Date() : null
+  }
+
+  /**
+   * Attaches view counts, reaction counts and the viewer's own reaction to posts.
+   *
+   * @param posts
+   * @param viewerId
+   * @private
+   */
+  private async attachStats(posts: Post[], viewerId?: string) {
+    const ids = posts.map((post) => post.id)
+    const summaries = await this.reactions.summarizePosts(ids, viewerId)
+    const viewCounts = await this.views.countPosts(ids)
+
+    for (const post of posts) {
+      post.reactions = summaries.get(post.id)
+      post.viewCount = viewCounts.get(post.id)
+    }
+
+    return posts
   }
 }
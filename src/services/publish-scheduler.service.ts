@@ -0,0 +1,26 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { ConfigKey, PostConfig } from '~/config/config.interface'
+import { PostsService } from '~/services/posts.service'
+import { IntervalService } from '~/services/common/interval.service'
+
+/**
+ * Publishes scheduled drafts. Schedules live in the database,
+ * so the ones which became due while the app was down are published on boot.
+ */
+@Injectable()
+export class PublishSchedulerService extends IntervalService {
+  @Inject()
+  private readonly posts!: PostsService
+
+  protected getIntervalSeconds(): number {
+    return this.config.get<PostConfig>(ConfigKey.Post)!.scheduleIntervalSeconds
+  }
+
+  protected async run() {
+    const count = await this.posts.publishDue()
+
+    if (count > 0) {
+      this.logger.log(`Published ${count} scheduled post(s).`)
+    }
+  }
+}
@@ -0,0 +1,215 @@
+import { Injectable, NotFoundException } from '@nestjs/common'
+import { Prisma, ReactionName } from '@prisma/client'
+import { CoreService } from '~/services/common/core.service'
+import { notDeleted, publishedPost } from '~/services/common/filters'
+import { PrismaErrorCode } from '~/enums/PrismaErrorCode'
+import {
+  ReactionCounts,
+  ReactionSummary,
+  ToggleReactionDto,
+} from '~/types/reaction'
+
+type ReactionTarget = { postId: string } | { commentId: string }
+
+@Injectable()
+export class ReactionsService extends CoreService {
+  protected getLangUseModel(): string {
+    return 'Reaction'
+  }
+
+  /**
+   * Toggles the user's reaction on a published post.
+   *
+   * @param data
+   * @param postId
+   * @param userId
+   */
+  async togglePost(
+    data: ToggleReactionDto,
+    postId: string,
+    userId: string
+  ): Promise<ReactionSummary> {
+    const post = await this.db.post.findFirst({
+      where: { id: postId, ...publishedPost },
+    })
+
+    if (!post) {
+      throw new NotFoundException(
+        await this.lang.get('error.not_found.id', {
+          args: { id: postId, model: 'Post' },
+        })
+      )
+    }
+
+    return this.toggle(data, { postId }, userId)
+  }
+
+  /**
+   * Toggles the user's reaction on a comment.
+   *
+   * @param data
+   * @param commentId
+   * @param userId
+   */
+  async toggleComment(
+    data: ToggleReactionDto,
+    commentId: string,
+    userId: string
+  ): Promise<ReactionSummary> {
+    const comment = await this.db.comment.findFirst({
+      where: { id: commentId, ...notDeleted, post: publishedPost },
+    })
+
+    if (!comment) {
+      throw new NotFoundException(
+        await this.lang.get('error.not_found.id', {
+          args: { id: commentId, model: 'Comment' },
+        })
+      )
+    }
+
+    return this.toggle(data, { commentId }, userId)
+  }
+
+  /**
+   * Summarizes reactions of many posts at once, keyed by post id.
+   *
+   * @param postIds
+   * @param viewerId
+   */
+  async summarizePosts(
+    postIds: string[],
+    viewerId?: string
+  ): Promise<Map<string, ReactionSummary>> {
+    const summaries = new Map<string, ReactionSummary>(
+      postIds.map((id) => [
+        id,
+        { counts: this.emptyCounts(), viewerReaction: null },
+      ])
+    )
+
+    if (postIds.length === 0) {
+      return summaries
+    }
+
+    const groups = await this.db.reaction.groupBy({
+      by: ['postId', 'name'],
+      where: { postId: { in: postIds } },
+      _count: { _all: true },
+    })
+
+    for (const group of groups) {
+      summaries.get(group.postId!)!.counts[group.name] = group._count._all
+    }
+
+    if (viewerId) {
+      const own = await this.db.reaction.findMany({
+        where: { userId: viewerId, postId: { in: postIds } },
+      })
+
+      for (const reaction of own) {
+        summaries.get(reaction.postId!)!.viewerReaction = reaction.name
+      }
+    }
+
+    return summaries
+  }
+
+  /**
+   * Counts the reactions received on a user's posts and comments.
+   *
+   * @param userId
+   */
+  async countReceived(userId: string): Promise<number> {
+    return await this.db.reaction.count({
+      where: {
+        OR: [
+          { post: { authorId: userId, ...notDeleted } },
+          { comment: { authorId: userId, ...notDeleted, post: notDeleted } },
+        ],
+      },
+    })
+  }
+
+  /**
+   * Creates, switches or removes (when reacting the same again)
+   * the user's reaction on the target.
+   *
+   * @param name
+   * @param target
+   * @param userId
+   * @private
+   */
+  private async toggle(
+    { name }: ToggleReactionDto,
+    target: ReactionTarget,
+    userId: string
+  ): Promise<ReactionSummary> {
+    const reaction = await this.db.reaction.findFirst({
+      where: { ...target, userId },
+    })
+
+    try {
+      switch (true) {
+        case !reaction:
+          await this.db.reaction.create({ data: { ...target, userId, name } })
+          break
+        case reaction!.name === name:
+          await this.db.reaction.delete({ where: { id: reaction!.id } })
+          break
+        default:
+          await this.db.reaction.update({
+            where: { id: reaction!.id },
+            data: { name },
+          })
+      }
+    } catch (e) {
+      // A concurrent toggle already wrote the reaction.
+      if (
+        !(
+          e instanceof Prisma.PrismaClientKnownRequestError &&
+          e.code === PrismaErrorCode.Unique
+        )
+      ) {
+        throw new Error(e)
+      }
+    }
+
+    return this.summarize(target, userId)
+  }
+
+  /**
+   * Summarizes reactions of a single target.
+   *
+   * @param target
+   * @param viewerId
+   * @private
+   */
+  private async summarize(
+    target: ReactionTarget,
+    viewerId: string
+  ): Promise<ReactionSummary> {
+    const counts = this.emptyCounts()
+    const groups = await this.db.reaction.groupBy({
+      by: ['name'],
+      where: target,
+      _count: { _all: true },
+    })
+
+    for (const group of groups) {
+      counts[group.name] = group._count._all
+    }
+
+    const own = await this.db.reaction.findFirst({
+      where: { ...target, userId: viewerId },
+    })
+
+    return { counts, viewerReaction: own ? own.name : null }
+  }
+
+  private emptyCounts(): ReactionCounts {
+    return Object.fromEntries(
+      Object.values(ReactionName).map((name) => [name, 0])
+    ) as ReactionCounts
+  }
+}
@@ -10,6 +10,10 @@ describe('HashService', () => {
     refreshInForRemembering: '360d',
     bcryptSaltOrRound: 10,
     jwtSecret: 'secret',
+    passwordResetMinutes: 60,
+    passwordSetupMinutes: 60,
+    emailVerificationMinutes: 60,
+    permissionCacheSeconds: 60,
   }
   let service: HashService
 
@@ -39,4 +43,12 @@ describe('HashService', () => {
     const hashed = await service.make(secret)
     expect(service.validate(secret, hashed)).toBeTruthy()
   })
+
+  test('should digest deterministically', function () {
+    const digest = service.digest('secret')
+
+    expect(digest).toHaveLength(64)
+    expect(service.digest('secret')).toBe(digest)
+    expect(service.digest('another secret')).not.toBe(digest)
+  })
 })
@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common'
 import { ConfigService } from '@nestjs/config'
 import { ConfigKey, SecurityConfig } from '~/config/config.interface'
 import { compare, hash } from 'bcrypt'
+import { createHash } from 'crypto'
 
 @Injectable()
 export class HashService {
@@ -13,4 +14,5 @@ export class HashService {
 
   validate = (original: string, hashed: string) => compare(original, hashed)
   make = (value: string) => hash(value, this.config.bcryptSaltOrRound)
+  digest = (value: string) => createHash('sha256').update(value).digest('hex')
 }
@@ -0,0 +1,43 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { TotpService } from '~/services/security/totp.service'
+
+describe('TotpService', () => {
+  // The ASCII secret "12345678901234567890" of RFC 6238
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+  let service: TotpService
+
+  beforeEach(async () => {
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [TotpService],
+    }).compile()
+
+    service = app.get(TotpService)
+  })
+
+  test('should generate the codes of RFC 6238', function () {
+    expect(service.generate(secret, 59 * 1000)).toBe('287082')
+    expect(service.generate(secret, 1111111109 * 1000)).toBe('081804')
+    expect(service.generate(secret, 1234567890 * 1000)).toBe('005924')
+  })
+
+  test('should verify codes within a step of drift', function () {
+    const time = 1111111109 * 1000
+
+    expect(service.verify('081804', secret, time)).toBe(37037036)
+    expect(service.verify('081804', secret, time + 30 * 1000)).toBe(37037036)
+    expect(service.verify('081804', secret, time + 90 * 1000)).toBeNull()
+    expect(service.verify('000000', secret, time)).toBeNull()
+  })
+
+  test('should round-trip generated secrets', function () {
+    const generated = service.generateSecret()
+
+    expect(generated).toMatch(/^[A-Z2-7]{32}$/)
+    expect(
+      service.verify(service.generate(generated), generated)
+    ).not.toBeNull()
+    expect(service.keyUri(generated, 'a@b.c', 'Zhihuyou')).toBe(
+      `otpauth://totp/Zhihuyou%3Aa%40b.c?secret=${generated}&issuer=Zhihuyou&algorithm=SHA1&digits=6&period=30`
+    )
+  })
+})
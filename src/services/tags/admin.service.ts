@@ -0,0 +1,81 @@
+import { ConflictException, Inject, Injectable } from '@nestjs/common'
+import { Prisma } from '@prisma/client'
+import { CoreService } from '~/services/common/core.service'
+import { TagService } from '~/services/tags/tag.service'
+import { MergeTagDto, RenameTagDto } from '~/types/tag'
+import { PrismaErrorCode } from '~/enums/PrismaErrorCode'
+import { Tag } from '~/models/tag.model'
+
+@Injectable()
+export class AdminTagService extends CoreService {
+  @Inject()
+  private readonly tagService!: TagService
+
+  protected getLangUseModel(): string {
+    return 'Tag'
+  }
+
+  /**
+   * Renames a tag.
+   *
+   * @param data
+   * @param name
+   */
+  async rename(data: RenameTagDto, name: string): Promise<Tag> {
+    const tag = await this.tagService.findByName(name)
+    const newName = this.tagService.normalize(data.name)
+
+    try {
+      return new Tag(
+        await this.db.tag.update({
+          where: { id: tag.id },
+          data: { name: newName },
+        })
+      )
+    } catch (e) {
+      if (
+        e instanceof Prisma.PrismaClientKnownRequestError &&
+        e.code === PrismaErrorCode.Unique
+      ) {
+        throw new ConflictException(
+          await this.lang.get('error.conflict.name', {
+            args: { name: newName },
+          })
+        )
+      }
+
+      throw new Error(e)
+    }
+  }
+
+  /**
+   * Merges a tag into the target tag: posts of the source tag are moved
+   * to the target, then the source tag is deleted.
+   *
+   * @param data
+   * @param name
+   */
+  async merge(data: MergeTagDto, name: string): Promise<Tag> {
+    const source = await this.tagService.findByName(name)
+    const target = await this.tagService.findByName(data.target)
+
+    if (source.id === target.id) {
+      return new Tag(target)
+    }
+
+    const posts = await this.db.post.findMany({
+      where: { tags: { some: { id: source.id } } },
+      select: { id: true },
+    })
+
+    const [merged] = await this.db.$transaction([
+      this.db.tag.update({
+        where: { id: target.id },
+        data: { posts: { connect: posts } },
+      }),
+      this.db.tag.delete({ where: { id: source.id } }),
+    ])
+
+    return new Tag(merged)
+  }
+}
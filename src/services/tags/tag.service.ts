@@ -0,0 +1,158 @@
+import { Injectable, NotFoundException } from '@nestjs/common'
+import modelFactory from '~/core/model/model.factory'
+import { CoreService } from '~/services/common/core.service'
+import { publishedPost } from '~/services/common/filters'
+import { TagWithCount } from '~/models/tag.model'
+import { Post } from '~/models/post.model'
+import { uniq } from 'lodash'
+import { Prisma } from '@prisma/client'
+import {
+  defaultPageLimit,
+  Paginated,
+  PaginationQueryDto,
+} from '~/types/pagination'
+
+@Injectable()
+export class TagService extends CoreService {
+  protected getLangUseModel(): string {
+    return 'Tag'
+  }
+
+  /**
+   * Normalizes a tag name, e.g. " Type  Script " => "type script".
+   *
+   * @param name
+   */
+  normalize(name: string): string {
+    return name.trim().replace(/\s+/g, ' ').toLowerCase()
+  }
+
+  /**
+   * Builds the nested write which connects tags by name,
+   * creating the ones that don't exist yet.
+   *
+   * @param names
+   */
+  connectOrCreate(names: string[]) {
+    return uniq(names.map((name) => this.normalize(name)))
+      .filter((name) => name.length > 0)
+      .map((name) => ({
+        where: { name },
+        create: { name },
+      }))
+  }
+
+  /**
+   * Gets a page of tags with their usage counts (most used first),
+   * counting only the published posts, as tag listings do.
+   *
+   * @param cursor
+   * @param limit
+   */
+  async getAll({
+    cursor,
+    limit = defaultPageLimit,
+  }: PaginationQueryDto): Promise<Paginated<TagWithCount>> {
+    let after = Prisma.empty
+
+    if (cursor) {
+      const [last] = await this.findWithCounts(
+        Prisma.sql`WHERE t.id = ${cursor}`,
+        Prisma.empty,
+        1
+      )
+
+      if (!last) {
+        return new Paginated<TagWithCount>([], null)
+      }
+
+      after = Prisma.sql`HAVING postCount < ${last.postCount}
+        OR (postCount = ${last.postCount} AND t.name > ${last.name})`
+    }
+
+    const rows = await this.findWithCounts(Prisma.empty, after, limit + 1)
+    const items = rows.slice(0, limit)
+
+    return new Paginated(
+      items,
+      rows.length > limit ? items[items.length - 1].id : null
+    )
+  }
+
+  /**
+   * Gets tags with their counts of published posts out of the trash,
+   * ordered by the count and then by name.
+   *
+   * @param where
+   * @param having
+   * @param limit
+   * @private
+   */
+  private async findWithCounts(
+    where: Prisma.Sql,
+    having: Prisma.Sql,
+    limit: number
+  ) {
+    const tags = await this.db.$queryRaw<
+      { id: string; name: string; postCount: number }[]
+    >`
+      SELECT t.id, t.name, COUNT(p.id) AS postCount
+      FROM Tag t
+      LEFT JOIN _PostToTag pt ON pt.B = t.id
+      LEFT JOIN Post p
+        ON p.id = pt.A AND p.published = true AND p.deletedAt IS NULL
+      ${where}
+      GROUP BY t.id, t.name
+      ${having}
+      ORDER BY postCount DESC, t.name ASC
+      LIMIT ${limit}`
+
+    return tags.map((tag) =>
+      modelFactory.make(TagWithCount, {
+        ...tag,
+        postCount: Number(tag.postCount),
+      })
+    )
+  }
+
+  /**
+   * Gets a page of published posts of a tag (latest first).
+   *
+   * @param name
+   * @param query
+   */
+  async getPosts(name: string, query: PaginationQueryDto) {
+    const tag = await this.findByName(name)
+    const page = await this.paginate(query, (args) =>
+      this.db.post.findMany({
+        where: {
+          ...publishedPost,
+          tags: { some: { id: tag.id } },
+        },
+        include: { tags: true },
+        orderBy: [{ publishedAt: 'desc' }, { id: 'desc' }],
+        ...args,
+      })
+    )
+
+    return page.map((items) => modelFactory.makeAll(Post, items))
+  }
+
+  /**
+   * Finds a tag by its (normalized) name.
+   *
+   * @param name
+   */
+  async findByName(name: string) {
+    name = this.normalize(name)
+    const tag = await this.db.tag.findUnique({ where: { name } })
+
+    if (!tag) {
+      throw new NotFoundException(
+        await this.lang.get('error.not_found.name', { args: { name } })
+      )
+    }
+
+    return tag
+  }
+}
@@ -0,0 +1,25 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { ConfigKey, TrashConfig } from '~/config/config.interface'
+import { IntervalService } from '~/services/common/interval.service'
+import { TrashService } from '~/services/trash.service'
+
+/**
+ * Purges the trash of the rows kept longer than the retention period.
+ */
+@Injectable()
+export class TrashPurgerService extends IntervalService {
+  @Inject()
+  private readonly trash!: TrashService
+
+  protected getIntervalSeconds(): number {
+    return this.config.get<TrashConfig>(ConfigKey.Trash)!.purgeIntervalSeconds
+  }
+
+  protected async run() {
+    const count = await this.trash.purge()
+
+    if (count > 0) {
+      this.logger.log(`Purged ${count} row(s) from the trash.`)
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common'
+import { Comment, Post, Prisma, User } from '@prisma/client'
+import { CoreService } from '~/services/common/core.service'
+import { ConfigKey, TrashConfig } from '~/config/config.interface'
+import { Paginated, PaginationQueryDto } from '~/types/pagination'
+import { deletedUser } from '~/types/user/user'
+import { deletedCommentContent } from '~/models/comment.model'
+import { DataExportService } from '~/services/users/data-export.service'
+
+/**
+ * Lists and restores the deleted users, posts and comments,
+ * then purges them once the retention period is over.
+ */
+@Injectable()
+export class TrashService extends CoreService {
+  @Inject()
+  private readonly dataExports!: DataExportService
+
+  /**
+   * Gets a page of deleted users (latest deleted first).
+   *
+   * @param query
+   */
+  async getUsers(query: PaginationQueryDto): Promise<Paginated<User>> {
+    return await this.paginate(query, (args) =>
+      this.db.user.findMany({
+        where: { deletedAt: { not: null } },
+        orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+        ...args,
+      })
+    )
+  }
+
+  /**
+   * Gets a page of deleted posts (latest deleted first).
+   *
+   * @param query
+   */
+  async getPosts(query: PaginationQueryDto): Promise<Paginated<Post>> {
+    return await this.paginate(query, (args) =>
+      this.db.post.findMany({
+        where: { deletedAt: { not: null } },
+        include: { tags: true },
+        orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+        ...args,
+      })
+    )
+  }
+
+  /**
+   * Gets a page of deleted comments (latest deleted first).
+   *
+   * @param query
+   */
+  async getComments(query: PaginationQueryDto): Promise<Paginated<Comment>> {
+    return await this.paginate(query, (args) =>
+      this.db.comment.findMany({
+        where: { deletedAt: { not: null } },
+        orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+        ...args,
+      })
+    )
+  }
+
+  /**
+   * Restores a deleted user, who has to log in again.
+   *
+   * @param id
+   *
+   * @throws NotFoundException when the user is not in the trash
+   */
+  async restoreUser(id: string): Promise<User> {
+    const { count } = await this.db.user.updateMany({
+      where: { id, deletedAt: { not: null } },
+      data: { deletedAt: null },
+    })
+    await this.checkRestored(count, id, 'User')
+
+    return (await this.db.user.findUnique({ where: { id } }))!
+  }
+
+  /**
+   * Restores a deleted post.
+   *
+   * @param id
+   *
+   * @throws NotFoundException when the post is not in the trash
+   */
+  async restorePost(id: string): Promise<Post> {
+    const { count } = await this.db.post.updateMany({
+      where: { id, deletedAt: { not: null } },
+      data: { deletedAt: null },
+    })
+    await this.checkRestored(count, id, 'Post')
+
+    return (await this.db.post.findUnique({
+      where: { id },
+      include: { tags: true },
+    }))!
+  }
+
+  /**
+   * Restores a deleted comment.
+   *
+   * @param id
+   *
+   * @throws NotFoundException when the comment is not in the trash
+   */
+  async restoreComment(id: string): Promise<Comment> {
+    const { count } = await this.db.comment.updateMany({
+      where: { id, deletedAt: { not: null } },
+      data: { deletedAt: null },
+    })
+    await this.checkRestored(count, id, 'Comment')
+
+    return (await this.db.comment.findUnique({ where: { id } }))!
+  }
+
+  /**
+   * Hard-deletes the users, posts and comments deleted before
+   * the retention period, with everything depending on them. The comments
+   * of purged users which others replied to stay as placeholder tombstones
+   * to hold their threads together.
+   *
+   * @return the number of purged rows
+   */
+  async purge(): Promise<number> {
+    const { retentionDays } = this.config.get<TrashConfig>(ConfigKey.Trash)!
+    const before = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000)
+
+    const comments = await this.purgeComments(before)
+    const posts = await this.purgePosts(before)
+    const users = await this.purgeUsers(before)
+
+    return comments + posts + users
+  }
+
+  /**
+   * Purges the deleted comments without replies, level by level,
+   * as a tombstone has to wait for its replies to be purged first.
+   *
+   * @param before
+   * @private
+   */
+  private async purgeComments(before: Date): Promise<number> {
+    const where = { deletedAt: { lte: before }, replies: { none: {} } }
+    const [, , { count }] = await this.db.$transaction([
+      ...this.deleteTargeting({ comment: where }),
+      this.db.comment.deleteMany({ where }),
+    ])
+
+    return count > 0 ? count + (await this.purgeComments(before)) : 0
+  }
+
+  /**
+   * Purges the deleted posts, with their comments.
+   *
+   * @param before
+   * @private
+   */
+  private async purgePosts(before: Date): Promise<number> {
+    const where = { deletedAt: { lte: before } }
+    const [, , { count }] = await this.db.$transaction([
+      ...this.deleteTargeting({
+        OR: [{ post: where }, { comment: { post: where } }],
+      }),
+      this.db.post.deleteMany({ where }),
+    ])
+
+    return count
+  }
+
+  private async purgeUsers(before: Date): Promise<number> {
+    const ids = (
+      await this.db.user.findMany({
+        where: { deletedAt: { lte: before } },
+        select: { id: true },
+      })
+    ).map(({ id }) => id)
+
+    if (ids.length === 0) {
+      return 0
+    }
+
+    const exportIds = await this.dataExports.getIds(...ids)
+    const [, , , { count }] = await this.db.$transaction([
+      this.db.comment.updateMany({
+        where: { authorId: { in: ids }, replies: { some: {} } },
+        data: {
+          authorId: deletedUser.id,
+          content: deletedCommentContent,
+          deletedAt: new Date(),
+        },
+      }),
+      ...this.deleteTargeting({ comment: { authorId: { in: ids } } }),
+      this.db.user.deleteMany({ where: { id: { in: ids } } }),
+    ])
+    await this.dataExports.removeFiles(exportIds)
+
+    return count
+  }
+
+  /**
+   * Deletes the reactions and views of the posts and comments about to be
+   * purged, which their foreign keys would leave pointing at nothing.
+   *
+   * @param where
+   * @private
+   */
+  private deleteTargeting(
+    where: Prisma.ReactionWhereInput & Prisma.ViewWhereInput
+  ) {
+    return [
+      this.db.reaction.deleteMany({ where }),
+      this.db.view.deleteMany({ where }),
+    ]
+  }
+
+  private async checkRestored(count: number, id: string, model: string) {
+    if (count === 0) {
+      throw new NotFoundException(
+        await this.lang.get('error.not_found.id', { args: { id, model } })
+      )
+    }
+  }
+}
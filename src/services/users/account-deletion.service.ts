@@ -0,0 +1,123 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common'
+import { Prisma } from '@prisma/client'
+import { AccountConfig, ConfigKey } from '~/config/config.interface'
+import { CoreService } from '~/services/common/core.service'
+import { HashService } from '~/services/security/hash.service'
+import { UserService } from '~/services/users/user.service'
+import { DataExportService } from '~/services/users/data-export.service'
+import { DeleteAccountDto, deletedUser } from '~/types/user/user'
+import { deletedCommentContent } from '~/models/comment.model'
+
+@Injectable()
+export class AccountDeletionService extends CoreService {
+  @Inject()
+  private readonly hash!: HashService
+
+  @Inject()
+  private readonly users!: UserService
+
+  @Inject()
+  private readonly dataExports!: DataExportService
+
+  protected getLangUseModel(): string {
+    return 'User'
+  }
+
+  /**
+   * Deletes own account once the password is confirmed. Its posts and
+   * comments are deleted or handed over to the deleted user placeholder,
+   * as configured, in the same transaction. Sessions, tokens, reactions,
+   * follows and data exports go with the account, the export archives
+   * only once it is committed.
+   *
+   * @param data
+   * @param id
+   *
+   * @throws BadRequestException when the password is incorrect
+   */
+  async delete(data: DeleteAccountDto, id: string): Promise<void> {
+    const user = await this.users.getUser(id)
+
+    if (!(await this.hash.validate(data.password, user.password))) {
+      throw new BadRequestException(await this.lang.get('error.password'))
+    }
+
+    const { deletionStrategy } = this.config.get<AccountConfig>(
+      ConfigKey.Account
+    )!
+
+    const exportIds = await this.dataExports.getIds(id)
+
+    await this.db.$transaction([
+      ...(deletionStrategy === 'cascade'
+        ? this.cascade(id)
+        : this.anonymize(id)),
+      this.db.user.delete({ where: { id } }),
+    ])
+    await this.dataExports.removeFiles(exportIds)
+  }
+
+  /**
+   * Deletes the posts and comments of a user, with their reactions and
+   * views. Comments with replies stay as placeholder tombstones to hold
+   * their threads together.
+   *
+   * @param id
+   * @private
+   */
+  private cascade(id: string) {
+    const posts = { authorId: id }
+
+    return [
+      ...this.deleteTargeting({
+        OR: [{ post: posts }, { comment: { post: posts } }],
+      }),
+      this.db.post.deleteMany({ where: posts }),
+      this.db.comment.updateMany({
+        where: { authorId: id, replies: { some: {} } },
+        data: {
+          authorId: deletedUser.id,
+          content: deletedCommentContent,
+          deletedAt: new Date(),
+        },
+      }),
+      // The comments left go with the user.
+      ...this.deleteTargeting({ comment: { authorId: id } }),
+    ]
+  }
+
+  /**
+   * Deletes the reactions and views of the posts and comments about to be
+   * deleted, which their foreign keys would leave pointing at nothing.
+   *
+   * @param where
+   * @private
+   */
+  private deleteTargeting(
+    where: Prisma.ReactionWhereInput & Prisma.ViewWhereInput
+  ) {
+    return [
+      this.db.reaction.deleteMany({ where }),
+      this.db.view.deleteMany({ where }),
+    ]
+  }
+
+  /**
+   * Hands the posts and comments of a user over to the placeholder.
+   *
+   * @param id
+   * @private
+   */
+  private anonymize(id: string) {
+    return [
+      this.db.post.updateMany({
+        where: { authorId: id },
+        data: { authorId: deletedUser.id },
+      }),
+      this.db.comment.updateMany({
+        where: { authorId: id },
+        data: { authorId: deletedUser.id },
+      }),
+    ]
+  }
+}
@@ -1,5 +1,7 @@
 import {
+  BadRequestException,
   ConflictException,
+  ForbiddenException,
   Inject,
   Injectable,
   NotFoundException,
@@ -7,45 +9,68 @@ import {
 import { HashService } from '~/services/security/hash.service'
 import {
   CreateUserDto,
+  deletedUser,
   ForceUpdatePasswordDto,
+  getReservedField,
   ForceUpdateUserDto,
   SearchUserDto,
   UpdateEmailDto,
   UpdateRoleDto,
   UpdateUserDto,
 } from '~/types/user/user'
-import { Prisma, User } from '@prisma/client'
+import { Prisma, Role, User } from '@prisma/client'
 import { PrismaErrorCode } from '~/enums/PrismaErrorCode'
 import { isEmpty } from 'class-validator'
+import { isNil } from 'lodash'
 import { CoreService } from '~/services/common/core.service'
-
-const defaultPassword = 'zolran666'
+import { notDeleted } from '~/services/common/filters'
+import { Paginated, PaginationQueryDto } from '~/types/pagination'
+import { PasswordResetService } from '~/services/users/password-reset.service'
+import { EmailVerificationService } from '~/services/users/email-verification.service'
+import { LoginThrottleService } from '~/services/users/login-throttle.service'
+import { SessionService } from '~/services/users/session.service'
+import { randomBytes } from 'crypto'
 
 @Injectable()
 export class AdminUserService extends CoreService {
   @Inject()
   private readonly hash!: HashService
 
+  @Inject()
+  private readonly passwordReset!: PasswordResetService
+
+  @Inject()
+  private readonly emailVerification!: EmailVerificationService
+
+  @Inject()
+  private readonly throttle!: LoginThrottleService
+
+  @Inject()
+  private readonly sessions!: SessionService
+
   protected getLangUseModel(): string {
     return 'User'
   }
 
   /**
-   * Creates a user.
+   * Creates a user. Without a password, the user is mailed
+   * a link to set one, and can't log in until then.
    *
    * @param password
    * @param email
    * @param data
    */
-  async create({
-    password = defaultPassword,
-    email,
-    ...data
-  }: CreateUserDto): Promise<User> {
-    const hashedPassword = await this.hash.make(password)
+  async create({ password, email, ...data }: CreateUserDto): Promise<User> {
+    await this.checkNotReserved(email, data.username)
+
+    const hashedPassword = await this.hash.make(
+      password ?? randomBytes(32).toString('hex')
+    )
+
+    let user: User
 
     try {
-      return await this.db.user.create({
+      user = await this.db.user.create({
         data: {
           password: hashedPassword,
           email,
@@ -76,6 +101,12 @@ export class AdminUserService extends CoreService {
 
       throw new Error(e)
     }
+
+    if (isNil(password)) {
+      await this.passwordReset.sendSetupLink(user)
+    }
+
+    return user
   }
 
   /**
@@ -83,8 +114,16 @@ export class AdminUserService extends CoreService {
    *
    * @param data
    * @param id
+   *
+   * @throws BadRequestException for the deleted user placeholder
    */
-  async forceUpdate(data: ForceUpdateUserDto, id: string): Promise<User> {
+  async forceUpdate(
+    data: ForceUpdateUserDto & Pick<Prisma.UserUpdateInput, 'emailVerifiedAt'>,
+    id: string
+  ): Promise<User> {
+    await this.checkNotDeletedUser(id)
+    await this.checkNotReserved(data.email, data.username)
+
     try {
       return await this.db.user.update({
         where: {
@@ -140,45 +179,69 @@ export class AdminUserService extends CoreService {
   }
 
   /**
-   * Updates the email of user.
+   * Updates the email of user, which has to be verified again.
    *
    * @param data
    * @param id
    */
   async updateEmail(data: UpdateEmailDto, id: string): Promise<User> {
-    return await this.forceUpdate(data, id)
+    const user = await this.forceUpdate({ ...data, emailVerifiedAt: null }, id)
+    await this.emailVerification.trySend(user)
+
+    return user
   }
 
   /**
-   * Updates the role of user.
+   * Updates the role of user. Only administrators can grant or revoke
+   * the ADMIN role.
    *
    * @param data
    * @param id
+   * @param operator
+   *
+   * @throws ForbiddenException
    */
-  async updateRole(data: UpdateRoleDto, id: string): Promise<User> {
+  async updateRole(
+    data: UpdateRoleDto,
+    id: string,
+    operator: User
+  ): Promise<User> {
+    if (operator.role !== Role.ADMIN) {
+      const user = await this.getUser(id)
+
+      if (data.role === Role.ADMIN || user.role === Role.ADMIN) {
+        throw new ForbiddenException(
+          await this.lang.get('error.forbidden.role')
+        )
+      }
+    }
+
     return await this.forceUpdate(data, id)
   }
 
   /**
-   * Deletes a user by id.
+   * Moves a user to the trash by id, ending all its sessions.
+   * It is purged once the retention period is over.
    *
    * @param id
+   *
+   * @throws BadRequestException for the deleted user placeholder
    */
   async remove(id: string): Promise<User> {
-    try {
-      return await this.db.user.delete({ where: { id } })
-    } catch (e) {
-      if (
-        e instanceof Prisma.PrismaClientKnownRequestError &&
-        e.code === PrismaErrorCode.NotFound
-      ) {
-        throw new NotFoundException(
-          await this.lang.get('error.not_found.delete')
-        )
-      }
+    await this.checkNotDeletedUser(id)
 
-      throw new Error(e)
+    const { count } = await this.db.user.updateMany({
+      where: { id, ...notDeleted },
+      data: { deletedAt: new Date() },
+    })
+
+    if (count === 0) {
+      throw new NotFoundException(await this.lang.get('error.not_found.delete'))
     }
+
+    await this.sessions.revokeAll(id)
+
+    return (await this.db.user.findUnique({ where: { id } }))!
   }
 
   /**
@@ -187,7 +250,9 @@ export class AdminUserService extends CoreService {
    * @param id
    */
   async getUser(id: string): Promise<User> {
-    const user = await this.db.user.findUnique({ where: { id } })
+    const user = await this.db.user.findFirst({
+      where: { id, ...notDeleted },
+    })
 
     if (!user) {
       throw new NotFoundException(
@@ -199,34 +264,58 @@ export class AdminUserService extends CoreService {
   }
 
   /**
-   * Gets all users (latest first)
+   * Unlocks a user locked out by failed logins.
+   *
+   * @param id
+   *
+   * @throws NotFoundException
    */
-  async getAllUser(): Promise<User[]> {
-    return await this.db.user.findMany({
-      orderBy: {
-        createdAt: 'desc',
-      },
-    })
+  async unlock(id: string): Promise<void> {
+    const user = await this.getUser(id)
+
+    await this.throttle.reset(user.email)
+  }
+
+  /**
+   * Gets a page of users (latest first)
+   *
+   * @param query
+   */
+  async getAllUser(query: PaginationQueryDto): Promise<Paginated<User>> {
+    return await this.paginate(query, (args) =>
+      this.db.user.findMany({
+        where: notDeleted,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...args,
+      })
+    )
   }
 
   /**
-   * Search all users by email/firstname/lastname
+   * Search a page of users by email/firstname/lastname
    *
+   * @param cursor
+   * @param limit
    * @param data
    */
-  async search(data: SearchUserDto): Promise<User[]> {
+  async search({
+    cursor,
+    limit,
+    ...data
+  }: SearchUserDto): Promise<Paginated<User>> {
     const conditions = this.searchWhere(data)
 
     if (conditions.length === 0) {
-      return []
+      return new Paginated<User>([], null)
     }
 
-    return await this.db.user.findMany({
-      where: Object.assign({}, ...conditions),
-      orderBy: {
-        createdAt: 'desc',
-      },
-    })
+    return await this.paginate({ cursor, limit }, (args) =>
+      this.db.user.findMany({
+        where: Object.assign({ ...notDeleted }, ...conditions),
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...args,
+      })
+    )
   }
 
   /**
@@ -235,7 +324,7 @@ export class AdminUserService extends CoreService {
    * @param data
    * @private
    */
-  private searchWhere(data: SearchUserDto): object[] {
+  private searchWhere(data: Omit<SearchUserDto, 'cursor' | 'limit'>): object[] {
     return Object.entries(data)
       .filter((item) => {
         const [, value] = item
@@ -250,4 +339,30 @@ export class AdminUserService extends CoreService {
         ])
       })
   }
+
+  /**
+   * Keeps administrators from changing the deleted user placeholder,
+   * and so from taking over the anonymized content.
+   *
+   * @param id
+   * @private
+   */
+  private async checkNotDeletedUser(id: string) {
+    if (id === deletedUser.id) {
+      throw new BadRequestException(
+        await this.lang.get('error.bad_request.deleted_user')
+      )
+    }
+  }
+
+  private async checkNotReserved(email?: string, username?: string) {
+    const reserved = getReservedField({ email, username })
+    if (reserved) {
+      throw new ConflictException(
+        await this.lang.get(`error.conflict.${reserved}`, {
+          args: { email, username },
+        })
+      )
+    }
+  }
 }
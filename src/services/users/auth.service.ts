@@ -3,24 +3,37 @@ import {
   ConflictException,
   Inject,
   Injectable,
-  NotFoundException,
   UnauthorizedException,
 } from '@nestjs/common'
 import { JwtService } from '@nestjs/jwt'
-import { Prisma } from '@prisma/client'
+import { Prisma, User as UserObject } from '@prisma/client'
 import { HashService } from '~/services/security/hash.service'
 import {
   AuthToken,
   authTokenKey,
+  AuthTokenPayload,
   AuthTokenPayloadForSigning,
   LoginDto,
   RegisterDto,
+  TokenType,
 } from '~/types/user/auth'
-import { ConfigKey, SecurityConfig } from '~/config/config.interface'
+import { ConfigKey, MfaConfig, SecurityConfig } from '~/config/config.interface'
 import { User } from '~/models/user.model'
 import { isNil } from 'lodash'
 import { PrismaErrorCode } from '~/enums/PrismaErrorCode'
 import { CoreService } from '~/services/common/core.service'
+import { notDeleted } from '~/services/common/filters'
+import { randomBytes } from 'crypto'
+import { SessionService } from '~/services/users/session.service'
+import { EmailVerificationService } from '~/services/users/email-verification.service'
+import { MfaService } from '~/services/users/mfa.service'
+import { LoginThrottleService } from '~/services/users/login-throttle.service'
+import { PersonalAccessTokenService } from '~/services/users/personal-access-token.service'
+import { personalAccessTokenPrefix } from '~/types/user/personal-access-token'
+import { Scope } from '~/enums/Scope'
+import { MfaChallenge } from '~/types/user/mfa'
+import { DeviceInfo } from '~/types/user/session'
+import { getReservedField } from '~/types/user/user'
 
 @Injectable()
 export class AuthService extends CoreService {
@@ -30,64 +43,155 @@ export class AuthService extends CoreService {
   @Inject()
   private readonly hash!: HashService
 
+  @Inject()
+  private readonly sessions!: SessionService
+
+  @Inject()
+  private readonly emailVerification!: EmailVerificationService
+
+  @Inject()
+  private readonly mfa!: MfaService
+
+  @Inject()
+  private readonly throttle!: LoginThrottleService
+
+  @Inject()
+  private readonly personalAccessTokens!: PersonalAccessTokenService
+
+  private dummyHash?: Promise<string>
+
   protected getLangUseModel(): string {
     return 'User'
   }
 
   /**
-   * Logs a user in.
+   * Logs a user in. With 2FA enabled, only a challenge is returned,
+   * to exchange with a code for the tokens. Failed logins lock out
+   * the account and the IP for a while, and all fail the same way.
    *
    * @param email
    * @param password
    * @param remembers
+   * @param device
    *
-   * @throws NotFoundException
    * @throws BadRequestException
+   * @throws HttpException too many requests
    */
-  async login({
-    email,
-    password,
-    remembers = false,
-  }: LoginDto): Promise<AuthToken> {
-    const user = await this.db.user.findUnique({
+  async login(
+    { email, password, remembers = false }: LoginDto,
+    device: DeviceInfo = {}
+  ): Promise<AuthToken | MfaChallenge> {
+    await this.throttle.check(email, device.ip)
+
+    const user = await this.db.user.findFirst({
       where: {
         email,
+        ...notDeleted,
       },
     })
+    // Unknown emails take as long as wrong passwords
+    const valid = await this.hash.validate(
+      password,
+      user?.password ?? (await this.getDummyHash())
+    )
 
-    if (!user) {
-      throw new NotFoundException(
-        await this.lang.get('error.not_found.email', { args: { email } })
-      )
-    }
+    if (!user || !valid) {
+      await this.throttle.fail(email, device.ip)
 
-    if (!(await this.hash.validate(password, user.password))) {
       throw new BadRequestException(await this.lang.get('error.login'))
     }
 
-    return this.generateToken({ [authTokenKey]: user.id }, remembers)
+    await this.throttle.reset(email)
+
+    if (user.totpEnabledAt) {
+      return {
+        mfaRequired: true,
+        mfaToken: this.jwt.sign(
+          { [authTokenKey]: user.id, typ: TokenType.Mfa, rem: remembers },
+          {
+            audience: TokenType.Mfa,
+            expiresIn: this.config.get<MfaConfig>(ConfigKey.Mfa)
+              ?.challengeExpiresIn,
+          }
+        ),
+      }
+    }
+
+    return this.generateToken({ [authTokenKey]: user.id }, remembers, device)
+  }
+
+  /**
+   * Completes a login challenged by 2FA with a code or a recovery code.
+   *
+   * @param mfaToken
+   * @param code
+   * @param device
+   *
+   * @throws UnauthorizedException
+   * @throws BadRequestException
+   * @throws HttpException too many requests
+   */
+  async verifyMfa(
+    mfaToken: string,
+    code: string,
+    device: DeviceInfo = {}
+  ): Promise<AuthToken> {
+    const payload = this.verify(mfaToken, TokenType.Mfa)
+    const user = payload && (await this.validateUser(payload[authTokenKey]))
+
+    if (!payload || !user?.totpEnabledAt) {
+      throw new UnauthorizedException()
+    }
+
+    await this.throttle.check(user.email, device.ip)
+
+    if (!(await this.mfa.verifyCode(user, code))) {
+      await this.throttle.fail(user.email, device.ip)
+
+      throw new BadRequestException(
+        await this.lang.get('error.bad_request.mfa_code')
+      )
+    }
+
+    await this.throttle.reset(user.email)
+
+    return this.generateToken(
+      { [authTokenKey]: user.id },
+      payload.rem ?? false,
+      device
+    )
   }
 
   /**
-   * Registers a user to the database.
+   * Registers a user to the database, mailing a link to verify the email.
    *
    * @param email
    * @param password
    * @param remembers
    * @param rest
+   * @param device
    *
    * @throws ConflictException
    */
-  async register({
-    email,
-    password,
-    remembers = false,
-    ...rest
-  }: RegisterDto): Promise<AuthToken> {
+  async register(
+    { email, password, remembers = false, ...rest }: RegisterDto,
+    device: DeviceInfo = {}
+  ): Promise<AuthToken> {
+    const reserved = getReservedField({ email, username: rest.username })
+    if (reserved) {
+      throw new ConflictException(
+        await this.lang.get(`error.conflict.${reserved}`, {
+          args: { email, username: rest.username },
+        })
+      )
+    }
+
     const hashedPassword = await this.hash.make(password)
 
+    let user: UserObject
+
     try {
-      const user = await this.db.user.create({
+      user = await this.db.user.create({
         data: {
           email,
           ...rest,
@@ -95,8 +199,6 @@ export class AuthService extends CoreService {
           role: 'USER',
         },
       })
-
-      return this.generateToken({ [authTokenKey]: user.id }, remembers)
     } catch (e) {
       /* istanbul ignore else */
       if (
@@ -122,26 +224,188 @@ export class AuthService extends CoreService {
 
       throw new Error(e)
     }
+
+    await this.emailVerification.trySend(user)
+
+    return await this.generateToken(
+      { [authTokenKey]: user.id },
+      remembers,
+      device
+    )
+  }
+
+  /**
+   * Generates auth jwt token for user, starting a new session.
+   *
+   * @param payload
+   * @param remembers
+   * @param device the device the session is started on
+   */
+  async generateToken(
+    payload: AuthTokenPayloadForSigning,
+    remembers = false,
+    device: DeviceInfo = {}
+  ): Promise<AuthToken> {
+    const session = await this.sessions.create(payload[authTokenKey], device)
+
+    return this.issueTokens(payload, remembers, session.id)
+  }
+
+  /**
+   * Rotates a refresh token: it can be used only once,
+   * and using it again ends its whole session.
+   *
+   * @param token
+   * @param remembers defaults to the one of the refresh token
+   *
+   * @throws UnauthorizedException
+   */
+  async refreshToken(token: string, remembers?: boolean): Promise<AuthToken> {
+    const record = await this.findRefreshToken(token)
+
+    if (!record || record.revokedAt || record.expiresAt <= new Date()) {
+      throw new UnauthorizedException()
+    }
+
+    const { count } = await this.db.refreshToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    })
+
+    if (count === 0) {
+      await this.sessions.end(record.sessionId)
+
+      throw new UnauthorizedException()
+    }
+
+    return this.issueTokens(
+      { [authTokenKey]: record.userId },
+      remembers ?? record.remembers,
+      record.sessionId
+    )
+  }
+
+  /**
+   * Logs out the session of a refresh token.
+   *
+   * @param token
+   * @param userId
+   */
+  async logout(token: string, userId: string): Promise<void> {
+    const record = await this.findRefreshToken(token, userId)
+
+    if (record) {
+      await this.sessions.end(record.sessionId, userId)
+    }
+  }
+
+  /**
+   * Logs out all sessions of a user: ends every session
+   * and rejects every token issued before now.
+   *
+   * @param userId
+   */
+  async logoutAll(userId: string): Promise<void> {
+    const now = new Date()
+    // `iat` of tokens has a precision of seconds
+    now.setMilliseconds(0)
+
+    await this.db.user.update({
+      where: { id: userId },
+      data: { tokensRevokedAt: now },
+    })
+    await this.sessions.revokeAll(userId, now)
+  }
+
+  /**
+   * Verifies a bearer token.
+   *
+   * @param bearerToken
+   */
+  async verifyAndGetUser(bearerToken: string): Promise<User | undefined> {
+    return (await this.authenticate(bearerToken))?.user
+  }
+
+  /**
+   * Verifies a bearer token and gets its user with its session,
+   * or with its scopes for a personal access token.
+   *
+   * @param bearerToken
+   */
+  async authenticate(
+    bearerToken: string
+  ): Promise<{ user: User; sessionId?: string; scopes?: Scope[] } | undefined> {
+    if (bearerToken.startsWith(personalAccessTokenPrefix)) {
+      const auth = await this.personalAccessTokens.authenticate(bearerToken)
+
+      return auth && { user: new User(auth.user), scopes: auth.scopes }
+    }
+
+    const payload = this.verify(bearerToken, TokenType.Access)
+
+    if (!payload) {
+      return undefined
+    }
+
+    const user = await this.validateUser(payload[authTokenKey])
+
+    if (
+      !user ||
+      (user.tokensRevokedAt &&
+        payload.iat * 1000 < user.tokensRevokedAt.getTime())
+    ) {
+      return undefined
+    }
+
+    if (payload.sid && !(await this.sessions.findActive(payload.sid))) {
+      return undefined
+    }
+
+    return { user, sessionId: payload.sid }
   }
 
   /**
-   * Generates auth jwt token for user.
+   * Signs the tokens of a session, persisting the refresh token (hashed).
    *
    * @param payload
    * @param remembers
+   * @param sessionId
+   * @private
    */
-  generateToken(
+  private async issueTokens(
     payload: AuthTokenPayloadForSigning,
-    remembers = false
-  ): AuthToken {
-    const accessToken = this.jwt.sign(payload)
+    remembers: boolean,
+    sessionId: string
+  ): Promise<AuthToken> {
+    const accessToken = this.jwt.sign(
+      { ...payload, typ: TokenType.Access, sid: sessionId },
+      { audience: TokenType.Access }
+    )
 
     const securityConfig = this.config.get<SecurityConfig>(ConfigKey.Security)
-    const refreshToken = this.jwt.sign(payload, {
-      expiresIn: remembers
-        ? securityConfig?.refreshInForRemembering
-        : securityConfig?.refreshIn,
+    const refreshToken = this.jwt.sign(
+      { ...payload, typ: TokenType.Refresh, sid: sessionId },
+      {
+        expiresIn: remembers
+          ? securityConfig?.refreshInForRemembering
+          : securityConfig?.refreshIn,
+        audience: TokenType.Refresh,
+        jwtid: this.randomId(),
+      }
+    )
+    const { exp } = this.jwt.decode(refreshToken) as AuthTokenPayload
+    const expiresAt = new Date(exp * 1000)
+
+    await this.db.refreshToken.create({
+      data: {
+        tokenHash: this.hash.digest(refreshToken),
+        remembers,
+        expiresAt,
+        userId: payload[authTokenKey],
+        sessionId,
+      },
     })
+    await this.sessions.touch(sessionId, expiresAt)
 
     return {
       accessToken,
@@ -150,31 +414,61 @@ export class AuthService extends CoreService {
   }
 
   /**
-   * Refreshes a user's access token.
+   * Verifies a token of the given type.
    *
    * @param token
-   * @param remembers
-   *
-   * @throws UnauthorizedException
+   * @param type
+   * @return the payload, or undefined when invalid
+   * @private
    */
-  refreshToken(token: string, remembers = false): AuthToken {
+  private verify(token: string, type: TokenType): AuthTokenPayload | undefined {
     try {
-      const { userId } = this.jwt.verify<AuthTokenPayloadForSigning>(token)
+      const payload = this.jwt.verify<AuthTokenPayload>(token, {
+        audience: type,
+      })
 
-      return this.generateToken({ userId }, remembers)
+      return payload.typ === type ? payload : undefined
     } catch (e) {
-      throw new UnauthorizedException()
+      return undefined
     }
   }
 
   /**
-   * Verifies a bearer token.
+   * Finds the persisted refresh token by the token,
+   * optionally requiring it to belong to a user.
    *
-   * @param bearerToken
+   * @param token
+   * @param userId
+   * @private
    */
-  async verifyAndGetUser(bearerToken: string): Promise<User | undefined> {
-    const payload = this.jwt.verify(bearerToken) as AuthTokenPayloadForSigning
-    return this.validateUser(payload[authTokenKey])
+  private async findRefreshToken(token: string, userId?: string) {
+    const payload = this.verify(token, TokenType.Refresh)
+
+    if (!payload || (userId && payload[authTokenKey] !== userId)) {
+      return null
+    }
+
+    return await this.db.refreshToken.findFirst({
+      where: {
+        tokenHash: this.hash.digest(token),
+        userId: payload[authTokenKey],
+      },
+    })
+  }
+
+  /**
+   * Gets a hash to validate passwords of unknown emails against.
+   *
+   * @private
+   */
+  private getDummyHash(): Promise<string> {
+    this.dummyHash ??= this.hash.make(this.randomId())
+
+    return this.dummyHash
+  }
+
+  private randomId(): string {
+    return randomBytes(16).toString('hex')
   }
 
   /**
@@ -183,7 +477,9 @@ export class AuthService extends CoreService {
    * @param userId
    */
   private async validateUser(userId: string): Promise<User | undefined> {
-    const data = await this.db.user.findUnique({ where: { id: userId } })
+    const data = await this.db.user.findFirst({
+      where: { id: userId, ...notDeleted },
+    })
 
     return isNil(data) ? undefined : new User(data)
   }
@@ -0,0 +1,51 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { ConfigKey, DataExportConfig } from '~/config/config.interface'
+import { IntervalService } from '~/services/common/interval.service'
+import { DataExportService } from '~/services/users/data-export.service'
+
+/**
+ * Builds the requested data export archives and deletes the expired ones.
+ */
+@Injectable()
+export class DataExportBuilderService extends IntervalService {
+  @Inject()
+  private readonly dataExports!: DataExportService
+
+  protected getIntervalSeconds(): number {
+    return this.config.get<DataExportConfig>(ConfigKey.DataExport)!
+      .buildIntervalSeconds
+  }
+
+  protected async run() {
+    for (const dataExport of await this.dataExports.getPending()) {
+      try {
+        await this.dataExports.build(dataExport)
+        this.logger.log(`Built data export ${dataExport.id}.`)
+      } catch (e) {
+        this.logger.error(e.message, e.stack)
+        await this.fail(dataExport.id)
+      }
+    }
+
+    const count = await this.dataExports.purgeExpired()
+
+    if (count > 0) {
+      this.logger.log(`Deleted ${count} expired data export(s).`)
+    }
+  }
+
+  /**
+   * Marks an export failed, logging instead of throwing so the other
+   * exports of the run are still built.
+   *
+   * @param id
+   * @private
+   */
+  private async fail(id: string) {
+    try {
+      await this.dataExports.fail(id)
+    } catch (e) {
+      this.logger.error(e.message, e.stack)
+    }
+  }
+}
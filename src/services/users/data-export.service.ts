@@ -0,0 +1,275 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common'
+import { DataExport, DataExportStatus, Prisma } from '@prisma/client'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { omit } from 'lodash'
+import { CoreService } from '~/services/common/core.service'
+import { ConfigKey, DataExportConfig } from '~/config/config.interface'
+import { PrismaErrorCode } from '~/enums/PrismaErrorCode'
+
+@Injectable()
+export class DataExportService extends CoreService {
+  protected getLangUseModel(): string {
+    return 'Data export'
+  }
+
+  /**
+   * Requests an archive of own data, built in the background.
+   * A request still pending is returned instead of a new one.
+   *
+   * @param userId
+   */
+  async request(userId: string): Promise<DataExport> {
+    const pending = await this.db.dataExport.findUnique({
+      where: { pendingUserId: userId },
+    })
+
+    if (pending) {
+      return pending
+    }
+
+    try {
+      return await this.db.dataExport.create({
+        data: { userId, pendingUserId: userId },
+      })
+    } catch (e) {
+      // A concurrent request created the pending export first.
+      if (
+        e instanceof Prisma.PrismaClientKnownRequestError &&
+        e.code === PrismaErrorCode.Unique
+      ) {
+        return await this.request(userId)
+      }
+
+      throw e
+    }
+  }
+
+  /**
+   * Gets the file of an own archive, as long as it has not expired.
+   *
+   * @param id
+   * @param userId
+   *
+   * @throws NotFoundException when the export is not found or expired
+   * @throws ConflictException when the archive is not built
+   */
+  async getFile(id: string, userId: string): Promise<string> {
+    const dataExport = await this.db.dataExport.findFirst({
+      where: {
+        id,
+        userId,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+    })
+
+    if (!dataExport) {
+      throw new NotFoundException(
+        await this.lang.get('error.not_found.id', { args: { id } })
+      )
+    }
+
+    if (dataExport.status !== DataExportStatus.READY) {
+      throw new ConflictException(
+        await this.lang.get(
+          dataExport.status === DataExportStatus.PENDING
+            ? 'error.conflict.data_export_pending'
+            : 'error.conflict.data_export_failed'
+        )
+      )
+    }
+
+    return this.getPath(id)
+  }
+
+  /**
+   * Gets the error of an archive found missing while sending it,
+   * e.g. when it has just expired and been purged.
+   *
+   * @param id
+   */
+  async missingFile(id: string): Promise<NotFoundException> {
+    return new NotFoundException(
+      await this.lang.get('error.not_found.id', { args: { id } })
+    )
+  }
+
+  /**
+   * Gets the exports waiting to be built, oldest first.
+   */
+  async getPending(): Promise<DataExport[]> {
+    return await this.db.dataExport.findMany({
+      where: { status: DataExportStatus.PENDING },
+      orderBy: { createdAt: 'asc' },
+    })
+  }
+
+  /**
+   * Writes everything held about the user to the archive, then makes it
+   * downloadable until it expires. The archive is removed again when the
+   * export is gone meanwhile, e.g. with its account.
+   *
+   * @param dataExport
+   */
+  async build(dataExport: DataExport): Promise<DataExport> {
+    const { dir, expiresHours } = this.config.get<DataExportConfig>(
+      ConfigKey.DataExport
+    )!
+    const file = this.getPath(dataExport.id)
+    const temp = `${file}.tmp`
+
+    await fs.mkdir(dir, { recursive: true })
+
+    try {
+      await fs.writeFile(
+        temp,
+        JSON.stringify(await this.collect(dataExport.userId), null, 2)
+      )
+      await fs.rename(temp, file)
+
+      const completedAt = new Date()
+
+      return await this.db.dataExport.update({
+        where: { id: dataExport.id },
+        data: {
+          status: DataExportStatus.READY,
+          pendingUserId: null,
+          completedAt,
+          expiresAt: new Date(
+            completedAt.getTime() + expiresHours * 60 * 60 * 1000
+          ),
+        },
+      })
+    } catch (e) {
+      await fs.rm(temp, { force: true })
+      await fs.rm(file, { force: true })
+
+      throw e
+    }
+  }
+
+  /**
+   * Marks an export whose archive could not be built,
+   * unless it is gone already.
+   *
+   * @param id
+   */
+  async fail(id: string): Promise<void> {
+    await this.db.dataExport.updateMany({
+      where: { id },
+      data: {
+        status: DataExportStatus.FAILED,
+        pendingUserId: null,
+        completedAt: new Date(),
+      },
+    })
+  }
+
+  /**
+   * Deletes the expired exports with their archives.
+   *
+   * @return the number of deleted exports
+   */
+  async purgeExpired(): Promise<number> {
+    return await this.remove({ expiresAt: { lte: new Date() } })
+  }
+
+  /**
+   * Gets the ids of all the exports of users.
+   *
+   * @param userIds
+   */
+  async getIds(...userIds: string[]): Promise<string[]> {
+    const dataExports = await this.db.dataExport.findMany({
+      where: { userId: { in: userIds } },
+      select: { id: true },
+    })
+
+    return dataExports.map(({ id }) => id)
+  }
+
+  /**
+   * Deletes the archives of exports, built or not.
+   *
+   * @param ids
+   */
+  async removeFiles(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      await fs.rm(this.getPath(id), { force: true })
+    }
+  }
+
+  private async remove(where: Prisma.DataExportWhereInput): Promise<number> {
+    const ids = (
+      await this.db.dataExport.findMany({ where, select: { id: true } })
+    ).map(({ id }) => id)
+
+    await this.removeFiles(ids)
+
+    const { count } = await this.db.dataExport.deleteMany({
+      where: { id: { in: ids } },
+    })
+
+    return count
+  }
+
+  /**
+   * Collects the user record without its secrets, with the profile and
+   * status, posts, comments, reactions, follows and sessions.
+   *
+   * @param userId
+   * @private
+   */
+  private async collect(userId: string) {
+    const user = await this.db.user.findUnique({
+      where: { id: userId },
+      include: {
+        following: { select: { id: true, username: true } },
+        followedBy: { select: { id: true, username: true } },
+      },
+    })
+
+    if (!user) {
+      throw new Error(`User ${userId} no longer exists.`)
+    }
+
+    const { following, followedBy, ...record } = user
+
+    return {
+      exportedAt: new Date(),
+      user: omit(record, ['password', 'totpSecret']),
+      profile: await this.db.profile.findUnique({
+        where: { userId },
+        include: { status: true },
+      }),
+      posts: await this.db.post.findMany({
+        where: { authorId: userId },
+        include: { tags: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      comments: await this.db.comment.findMany({
+        where: { authorId: userId },
+        orderBy: { createdAt: 'asc' },
+      }),
+      reactions: await this.db.reaction.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+      }),
+      follows: { following, followers: followedBy },
+      sessions: await this.db.session.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+      }),
+    }
+  }
+
+  private getPath(id: string): string {
+    const { dir } = this.config.get<DataExportConfig>(ConfigKey.DataExport)!
+
+    return path.resolve(dir, `${id}.json`)
+  }
+}
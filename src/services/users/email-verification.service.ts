@@ -0,0 +1,128 @@
+import { BadRequestException, Inject, Injectable, Logger } from '@nestjs/common'
+import { User } from '@prisma/client'
+import { randomBytes } from 'crypto'
+import { CoreService } from '~/services/common/core.service'
+import { HashService } from '~/services/security/hash.service'
+import { MailService } from '~/services/mail/mail.service'
+import { AppConfig, ConfigKey, SecurityConfig } from '~/config/config.interface'
+
+@Injectable()
+export class EmailVerificationService extends CoreService {
+  private readonly logger = new Logger(EmailVerificationService.name)
+
+  @Inject()
+  private readonly hash!: HashService
+
+  @Inject()
+  private readonly mail!: MailService
+
+  protected getLangUseModel(): string {
+    return 'User'
+  }
+
+  /**
+   * Mails a verification link for the current email of a user,
+   * replacing the unused ones.
+   *
+   * @param user
+   */
+  async send({ id, email }: Pick<User, 'id' | 'email'>): Promise<void> {
+    const token = randomBytes(32).toString('hex')
+    const { emailVerificationMinutes: minutes } =
+      this.config.get<SecurityConfig>(ConfigKey.Security)!
+
+    await this.db.$transaction([
+      this.db.emailVerification.deleteMany({
+        where: { userId: id, usedAt: null },
+      }),
+      this.db.emailVerification.create({
+        data: {
+          tokenHash: this.hash.digest(token),
+          email,
+          expiresAt: new Date(Date.now() + minutes * 60 * 1000),
+          userId: id,
+        },
+      }),
+    ])
+
+    const { clientUrl } = this.config.get<AppConfig>(ConfigKey.App)!
+    const args = {
+      minutes,
+      link: `${clientUrl}/email/verify?token=${token}`,
+    }
+
+    await this.mail.send({
+      to: email,
+      subject: await this.lang.get('mail.email_verification.subject'),
+      text: await this.lang.get('mail.email_verification.text', { args }),
+    })
+  }
+
+  /**
+   * Mails a verification link like `send`, only logging a failure,
+   * as the user can ask for a new link later.
+   *
+   * @param user
+   */
+  async trySend(user: Pick<User, 'id' | 'email'>): Promise<void> {
+    try {
+      await this.send(user)
+    } catch (e) {
+      this.logger.error(e.message, e.stack)
+    }
+  }
+
+  /**
+   * Mails a new verification link to a user whose email is not verified yet.
+   *
+   * @param user
+   *
+   * @throws BadRequestException
+   */
+  async resend(user: User): Promise<void> {
+    if (user.emailVerifiedAt) {
+      throw new BadRequestException(
+        await this.lang.get('error.bad_request.email_verified')
+      )
+    }
+
+    await this.send(user)
+  }
+
+  /**
+   * Verifies the email of a user with a verification token, which can be used
+   * only once, and only while the user still has the email it was sent to.
+   *
+   * @param token
+   *
+   * @throws BadRequestException
+   */
+  async verify(token: string): Promise<void> {
+    const verification = await this.db.emailVerification.findUnique({
+      where: { tokenHash: this.hash.digest(token) },
+    })
+    const { count } = verification
+      ? await this.db.emailVerification.updateMany({
+          where: {
+            id: verification.id,
+            usedAt: null,
+            expiresAt: { gt: new Date() },
+          },
+          data: { usedAt: new Date() },
+        })
+      : { count: 0 }
+    const { count: verified } =
+      verification && count > 0
+        ? await this.db.user.updateMany({
+            where: { id: verification.userId, email: verification.email },
+            data: { emailVerifiedAt: new Date() },
+          })
+        : { count: 0 }
+
+    if (verified === 0) {
+      throw new BadRequestException(
+        await this.lang.get('error.bad_request.email_verification')
+      )
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common'
+import { Prisma, User } from '@prisma/client'
+import { CoreService } from '~/services/common/core.service'
+import { notDeleted } from '~/services/common/filters'
+import { UserService } from '~/services/users/user.service'
+import { Paginated, PaginationQueryDto } from '~/types/pagination'
+
+@Injectable()
+export class FollowService extends CoreService {
+  @Inject()
+  private readonly userService!: UserService
+
+  protected getLangUseModel(): string {
+    return 'User'
+  }
+
+  /**
+   * Follows a user by username.
+   *
+   * @param username
+   * @param followerId
+   */
+  async follow(username: string, followerId: string): Promise<boolean> {
+    const user = await this.userService.getUserByUsername(username)
+
+    if (user.id === followerId) {
+      throw new BadRequestException(
+        await this.lang.get('error.bad_request.follow_self')
+      )
+    }
+
+    await this.db.user.update({
+      where: { id: followerId },
+      data: { following: { connect: { id: user.id } } },
+    })
+
+    return true
+  }
+
+  /**
+   * Unfollows a user by username.
+   *
+   * @param username
+   * @param followerId
+   */
+  async unfollow(username: string, followerId: string): Promise<boolean> {
+    const user = await this.userService.getUserByUsername(username)
+
+    await this.db.user.update({
+      where: { id: followerId },
+      data: { following: { disconnect: { id: user.id } } },
+    })
+
+    return false
+  }
+
+  /**
+   * Checks whether a user follows another user.
+   *
+   * @param followerId
+   * @param userId
+   */
+  async isFollowing(followerId: string, userId: string): Promise<boolean> {
+    const count = await this.db.user.count({
+      where: {
+        id: userId,
+        followedBy: { some: { id: followerId } },
+      },
+    })
+
+    return count > 0
+  }
+
+  /**
+   * Gets the followers of a user.
+   *
+   * @param username
+   * @param query
+   */
+  async followers(
+    username: string,
+    query: PaginationQueryDto
+  ): Promise<Paginated<User>> {
+    const user = await this.userService.getUserByUsername(username)
+
+    return this.paginateUsers({ following: { some: { id: user.id } } }, query)
+  }
+
+  /**
+   * Gets the users followed by a user.
+   *
+   * @param username
+   * @param query
+   */
+  async following(
+    username: string,
+    query: PaginationQueryDto
+  ): Promise<Paginated<User>> {
+    const user = await this.userService.getUserByUsername(username)
+
+    return this.paginateUsers({ followedBy: { some: { id: user.id } } }, query)
+  }
+
+  /**
+   * Paginates users by cursor (ordered by id).
+   *
+   * @param where
+   * @param query
+   * @private
+   */
+  private async paginateUsers(
+    where: Prisma.UserWhereInput,
+    query: PaginationQueryDto
+  ): Promise<Paginated<User>> {
+    return await this.paginate(query, (args) =>
+      this.db.user.findMany({
+        where: { ...where, ...notDeleted },
+        orderBy: { id: 'asc' },
+        ...args,
+      })
+    )
+  }
+}
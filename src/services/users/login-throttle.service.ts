@@ -0,0 +1,142 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common'
+import { Prisma } from '@prisma/client'
+import { CoreService } from '~/services/common/core.service'
+import { PrismaErrorCode } from '~/enums/PrismaErrorCode'
+import { ConfigKey, LoginThrottleConfig } from '~/config/config.interface'
+
+/**
+ * Counts failed logins per account (by email, known or not, so nothing tells
+ * them apart) and per IP, locking each out for exponentially longer.
+ */
+@Injectable()
+export class LoginThrottleService extends CoreService {
+  /**
+   * Rejects the login while the account or the IP is locked out.
+   *
+   * @param email
+   * @param ip
+   *
+   * @throws HttpException too many requests
+   */
+  async check(email: string, ip?: string): Promise<void> {
+    const throttles = await this.db.loginThrottle.findMany({
+      where: {
+        key: { in: this.keys(email, ip) },
+        lockedUntil: { gt: new Date() },
+      },
+    })
+
+    if (throttles.length > 0) {
+      const lockedUntil = Math.max(
+        ...throttles.map((throttle) => throttle.lockedUntil!.getTime())
+      )
+
+      throw new HttpException(
+        await this.lang.get('error.login_locked', {
+          args: { seconds: Math.ceil((lockedUntil - Date.now()) / 1000) },
+        }),
+        HttpStatus.TOO_MANY_REQUESTS
+      )
+    }
+  }
+
+  /**
+   * Records a failed login of the account and the IP.
+   *
+   * @param email
+   * @param ip
+   */
+  async fail(email: string, ip?: string): Promise<void> {
+    const config = this.getThrottleConfig()
+    const [accountKey, ipKey] = this.keys(email, ip)
+
+    await this.increment(accountKey, config.freeAttempts)
+
+    if (ipKey) {
+      await this.increment(ipKey, config.ipFreeAttempts)
+    }
+  }
+
+  /**
+   * Forgets the failed logins of an account, unlocking it.
+   *
+   * @param email
+   */
+  async reset(email: string): Promise<void> {
+    await this.db.loginThrottle.deleteMany({
+      where: { key: this.keys(email)[0] },
+    })
+  }
+
+  /**
+   * Counts a failure of the key in the database itself, so concurrent
+   * failures can't overwrite each other's count.
+   *
+   * @param key
+   * @param freeAttempts
+   * @private
+   */
+  private async increment(key: string, freeAttempts: number): Promise<void> {
+    const { lockSeconds, maxLockSeconds, resetMinutes } =
+      this.getThrottleConfig()
+
+    // Starts over once the last failure is old enough to be forgotten.
+    await this.db.loginThrottle.updateMany({
+      where: {
+        key,
+        updatedAt: { lt: new Date(Date.now() - resetMinutes * 60 * 1000) },
+      },
+      data: { attempts: 0, lockedUntil: null },
+    })
+
+    const { attempts } = await this.count(key)
+
+    if (attempts > freeAttempts) {
+      const lockedUntil = new Date(
+        Date.now() +
+          Math.min(
+            lockSeconds * 2 ** (attempts - freeAttempts - 1),
+            maxLockSeconds
+          ) *
+            1000
+      )
+
+      // Leaves the lock to a later failure when one was counted meanwhile.
+      await this.db.loginThrottle.updateMany({
+        where: { key, attempts },
+        data: { lockedUntil },
+      })
+    }
+  }
+
+  private async count(key: string) {
+    const upsert = () =>
+      this.db.loginThrottle.upsert({
+        where: { key },
+        update: { attempts: { increment: 1 } },
+        create: { key, attempts: 1 },
+      })
+
+    try {
+      return await upsert()
+    } catch (e) {
+      // A concurrent failure created the row first.
+      if (
+        e instanceof Prisma.PrismaClientKnownRequestError &&
+        e.code === PrismaErrorCode.Unique
+      ) {
+        return await upsert()
+      }
+
+      throw e
+    }
+  }
+
+  private keys(email: string, ip?: string): string[] {
+    return [`email:${email.toLowerCase()}`, ...(ip ? [`ip:${ip}`] : [])]
+  }
+
+  private getThrottleConfig(): LoginThrottleConfig {
+    return this.config.get<LoginThrottleConfig>(ConfigKey.LoginThrottle)!
+  }
+}
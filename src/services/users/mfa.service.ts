@@ -0,0 +1,199 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common'
+import { User } from '@prisma/client'
+import { randomBytes } from 'crypto'
+import { CoreService } from '~/services/common/core.service'
+import { HashService } from '~/services/security/hash.service'
+import { TotpService } from '~/services/security/totp.service'
+import { ConfigKey, MfaConfig } from '~/config/config.interface'
+import { MfaEnrollmentResponse } from '~/types/user/mfa'
+
+@Injectable()
+export class MfaService extends CoreService {
+  @Inject()
+  private readonly hash!: HashService
+
+  @Inject()
+  private readonly totp!: TotpService
+
+  protected getLangUseModel(): string {
+    return 'User'
+  }
+
+  /**
+   * Starts enrolling a user into 2FA with a new secret,
+   * which is enabled once confirmed with a code.
+   *
+   * @param user
+   *
+   * @throws BadRequestException
+   */
+  async enroll(user: User): Promise<MfaEnrollmentResponse> {
+    if (user.totpEnabledAt) {
+      throw new BadRequestException(
+        await this.lang.get('error.bad_request.mfa_enabled')
+      )
+    }
+
+    const secret = this.totp.generateSecret()
+    await this.db.user.update({
+      where: { id: user.id },
+      data: { totpSecret: secret, totpLastStep: null },
+    })
+
+    return {
+      secret,
+      uri: this.totp.keyUri(secret, user.email, this.getMfaConfig().issuer),
+    }
+  }
+
+  /**
+   * Enables 2FA with a code of the enrolled secret.
+   *
+   * @param user
+   * @param code
+   * @return the recovery codes
+   *
+   * @throws BadRequestException
+   */
+  async confirm(user: User, code: string): Promise<string[]> {
+    if (user.totpEnabledAt) {
+      throw new BadRequestException(
+        await this.lang.get('error.bad_request.mfa_enabled')
+      )
+    }
+
+    if (!user.totpSecret) {
+      throw new BadRequestException(
+        await this.lang.get('error.bad_request.mfa_enrollment')
+      )
+    }
+
+    if (!(await this.useTotp(user.id, user.totpSecret, code))) {
+      throw new BadRequestException(
+        await this.lang.get('error.bad_request.mfa_code')
+      )
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes()
+
+    await this.db.$transaction([
+      this.db.user.update({
+        where: { id: user.id },
+        data: { totpEnabledAt: new Date() },
+      }),
+      this.db.recoveryCode.deleteMany({ where: { userId: user.id } }),
+      this.db.recoveryCode.createMany({
+        data: recoveryCodes.map((recoveryCode) => ({
+          codeHash: this.hashRecoveryCode(recoveryCode),
+          userId: user.id,
+        })),
+      }),
+    ])
+
+    return recoveryCodes
+  }
+
+  /**
+   * Disables 2FA with a code or a recovery code.
+   *
+   * @param user
+   * @param code
+   *
+   * @throws BadRequestException
+   */
+  async disable(user: User, code: string): Promise<void> {
+    if (!user.totpEnabledAt) {
+      throw new BadRequestException(
+        await this.lang.get('error.bad_request.mfa_disabled')
+      )
+    }
+
+    if (!(await this.verifyCode(user, code))) {
+      throw new BadRequestException(
+        await this.lang.get('error.bad_request.mfa_code')
+      )
+    }
+
+    await this.db.$transaction([
+      this.db.user.update({
+        where: { id: user.id },
+        data: { totpSecret: null, totpEnabledAt: null },
+      }),
+      this.db.recoveryCode.deleteMany({ where: { userId: user.id } }),
+    ])
+  }
+
+  /**
+   * Verifies a code of the authenticator app, or uses up a recovery code.
+   *
+   * @param user
+   * @param code
+   */
+  async verifyCode(user: User, code: string): Promise<boolean> {
+    if (!user.totpEnabledAt || !user.totpSecret) {
+      return false
+    }
+
+    if (await this.useTotp(user.id, user.totpSecret, code)) {
+      return true
+    }
+
+    const { count } = await this.db.recoveryCode.updateMany({
+      where: {
+        userId: user.id,
+        codeHash: this.hashRecoveryCode(code),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    })
+
+    return count > 0
+  }
+
+  /**
+   * Verifies a code of the authenticator app, using up its step so the
+   * code (or an earlier one) can't be replayed.
+   *
+   * @param userId
+   * @param secret
+   * @param code
+   * @private
+   */
+  private async useTotp(
+    userId: string,
+    secret: string,
+    code: string
+  ): Promise<boolean> {
+    const step = this.totp.verify(code, secret)
+
+    if (step === null) {
+      return false
+    }
+
+    const { count } = await this.db.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }],
+      },
+      data: { totpLastStep: step },
+    })
+
+    return count > 0
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: this.getMfaConfig().recoveryCodes }, () => {
+      const code = randomBytes(5).toString('hex')
+
+      return `${code.slice(0, 5)}-${code.slice(5)}`
+    })
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return this.hash.digest(code.trim().toLowerCase().replace(/-/g, ''))
+  }
+
+  private getMfaConfig(): MfaConfig {
+    return this.config.get<MfaConfig>(ConfigKey.Mfa)!
+  }
+}
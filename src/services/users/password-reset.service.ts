@@ -0,0 +1,144 @@
+import { BadRequestException, Inject, Injectable, Logger } from '@nestjs/common'
+import { User } from '@prisma/client'
+import { randomBytes } from 'crypto'
+import { CoreService } from '~/services/common/core.service'
+import { notDeleted } from '~/services/common/filters'
+import { HashService } from '~/services/security/hash.service'
+import { MailService } from '~/services/mail/mail.service'
+import { AuthService } from '~/services/users/auth.service'
+import { AppConfig, ConfigKey, SecurityConfig } from '~/config/config.interface'
+import { ResetPasswordDto } from '~/types/user/auth'
+
+@Injectable()
+export class PasswordResetService extends CoreService {
+  private readonly logger = new Logger(PasswordResetService.name)
+
+  @Inject()
+  private readonly hash!: HashService
+
+  @Inject()
+  private readonly mail!: MailService
+
+  @Inject()
+  private readonly auth!: AuthService
+
+  protected getLangUseModel(): string {
+    return 'User'
+  }
+
+  /**
+   * Mails a password reset link when the email belongs to a user.
+   * Nothing tells whether it does, so emails can't be enumerated.
+   *
+   * @param email
+   */
+  async forgot(email: string): Promise<void> {
+    const user = await this.db.user.findFirst({
+      where: { email, ...notDeleted },
+    })
+
+    if (user) {
+      await this.sendLink(
+        user,
+        'password_reset',
+        this.getSecurityConfig().passwordResetMinutes
+      )
+    }
+  }
+
+  /**
+   * Mails a link for a user created by an admin to set its password.
+   * A failure is only logged, as the user can still ask for a reset link.
+   *
+   * @param user
+   */
+  async sendSetupLink(user: User): Promise<void> {
+    try {
+      await this.sendLink(
+        user,
+        'password_setup',
+        this.getSecurityConfig().passwordSetupMinutes
+      )
+    } catch (e) {
+      this.logger.error(e.message, e.stack)
+    }
+  }
+
+  /**
+   * Resets the password with a reset token, which can be used only once,
+   * and logs out all sessions of the user.
+   *
+   * @param token
+   * @param password
+   *
+   * @throws BadRequestException
+   */
+  async reset({ token, password }: ResetPasswordDto): Promise<void> {
+    const reset = await this.db.passwordReset.findUnique({
+      where: { tokenHash: this.hash.digest(token) },
+    })
+    const { count } = reset
+      ? await this.db.passwordReset.updateMany({
+          where: { id: reset.id, usedAt: null, expiresAt: { gt: new Date() } },
+          data: { usedAt: new Date() },
+        })
+      : { count: 0 }
+
+    if (!reset || count === 0) {
+      throw new BadRequestException(
+        await this.lang.get('error.bad_request.password_reset')
+      )
+    }
+
+    await this.db.user.update({
+      where: { id: reset.userId },
+      data: { password: await this.hash.make(password) },
+    })
+    await this.auth.logoutAll(reset.userId)
+  }
+
+  /**
+   * Issues a reset token, replacing the unused ones of the user, and mails its link.
+   *
+   * @param user
+   * @param template
+   * @param minutes
+   * @private
+   */
+  private async sendLink(
+    user: User,
+    template: 'password_reset' | 'password_setup',
+    minutes: number
+  ): Promise<void> {
+    const token = randomBytes(32).toString('hex')
+
+    await this.db.$transaction([
+      this.db.passwordReset.deleteMany({
+        where: { userId: user.id, usedAt: null },
+      }),
+      this.db.passwordReset.create({
+        data: {
+          tokenHash: this.hash.digest(token),
+          expiresAt: new Date(Date.now() + minutes * 60 * 1000),
+          userId: user.id,
+        },
+      }),
+    ])
+
+    const { clientUrl } = this.config.get<AppConfig>(ConfigKey.App)!
+    const args = {
+      minutes,
+      link: `${clientUrl}/password/reset?token=${token}`,
+    }
+
+    await this.mail.send({
+      to: user.email,
+      subject: await this.lang.get(`mail.${template}.subject`),
+      text: await this.lang.get(`mail.${template}.text`, { args }),
+    })
+  }
+
+  private getSecurityConfig(): SecurityConfig {
+    return this.config.get<SecurityConfig>(ConfigKey.Security)!
+  }
+}
@@ -0,0 +1,139 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common'
+import { Role, User } from '@prisma/client'
+import { CoreService } from '~/services/common/core.service'
+import { ConfigKey, MfaConfig, SecurityConfig } from '~/config/config.interface'
+import { Permission } from '~/enums/Permission'
+import { RolePermissionsResponse } from '~/types/user/permission'
+
+/**
+ * Resolves the permissions granted to the roles, administrators hold all of
+ * them. Checked on every guarded request, so they are cached for a while.
+ */
+@Injectable()
+export class PermissionService extends CoreService {
+  private readonly cache = new Map<
+    Role,
+    { permissions: Permission[]; expiresAt: number }
+  >()
+
+  /**
+   * Gets the permissions of a role.
+   *
+   * @param role
+   */
+  async getPermissions(role: Role): Promise<Permission[]> {
+    if (role === Role.ADMIN) {
+      return Object.values(Permission)
+    }
+
+    const cached = this.cache.get(role)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.permissions
+    }
+
+    const permissions = await this.findPermissions(role)
+    const { permissionCacheSeconds } = this.config.get<SecurityConfig>(
+      ConfigKey.Security
+    )!
+    this.cache.set(role, {
+      permissions,
+      expiresAt: Date.now() + permissionCacheSeconds * 1000,
+    })
+
+    return permissions
+  }
+
+  /**
+   * Checks a role is granted all the permissions.
+   *
+   * @param role
+   * @param permissions
+   */
+  async hasPermissions(
+    role: Role,
+    permissions: Permission[]
+  ): Promise<boolean> {
+    const granted = await this.getPermissions(role)
+
+    return permissions.every((permission) => granted.includes(permission))
+  }
+
+  /**
+   * Checks an administrator may use their privileges, which requires
+   * two-factor authentication when configured so.
+   *
+   * @param user
+   *
+   * @throws ForbiddenException
+   */
+  checkAdminMfa(user: Pick<User, 'role' | 'totpEnabledAt'>): void {
+    const config = this.config.get<MfaConfig>(ConfigKey.Mfa)
+    if (
+      user.role === Role.ADMIN &&
+      config?.requiredForAdmins &&
+      !user.totpEnabledAt
+    ) {
+      throw new ForbiddenException(
+        'Administrators must enable two-factor authentication.'
+      )
+    }
+  }
+
+  /**
+   * Lists every role with its permissions, bypassing the cache.
+   */
+  async list(): Promise<RolePermissionsResponse[]> {
+    return await Promise.all(
+      Object.values(Role).map(async (role) => ({
+        role,
+        permissions:
+          role === Role.ADMIN
+            ? Object.values(Permission)
+            : await this.findPermissions(role),
+      }))
+    )
+  }
+
+  /**
+   * Replaces the permissions of a role.
+   *
+   * @param role
+   * @param permissions
+   *
+   * @throws BadRequestException when the role is ADMIN
+   */
+  async update(
+    role: Role,
+    permissions: Permission[]
+  ): Promise<RolePermissionsResponse> {
+    if (role === Role.ADMIN) {
+      throw new BadRequestException(
+        await this.lang.get('error.bad_request.admin_permissions')
+      )
+    }
+
+    const unique = Array.from(new Set(permissions))
+    await this.db.$transaction([
+      this.db.rolePermission.deleteMany({ where: { role } }),
+      this.db.rolePermission.createMany({
+        data: unique.map((permission) => ({ role, permission })),
+      }),
+    ])
+    this.cache.delete(role)
+
+    return { role, permissions: unique }
+  }
+
+  private async findPermissions(role: Role): Promise<Permission[]> {
+    const rows = await this.db.rolePermission.findMany({
+      where: { role },
+      orderBy: { permission: 'asc' },
+    })
+
+    return rows.map(({ permission }) => permission as Permission)
+  }
+}
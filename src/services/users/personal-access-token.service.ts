@@ -0,0 +1,135 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common'
+import { PersonalAccessToken, User } from '@prisma/client'
+import { randomBytes } from 'crypto'
+import { CoreService } from '~/services/common/core.service'
+import { HashService } from '~/services/security/hash.service'
+import {
+  CreatePersonalAccessTokenDto,
+  personalAccessTokenPrefix,
+} from '~/types/user/personal-access-token'
+import { Scope } from '~/enums/Scope'
+import { Paginated, PaginationQueryDto } from '~/types/pagination'
+
+@Injectable()
+export class PersonalAccessTokenService extends CoreService {
+  @Inject()
+  private readonly hash!: HashService
+
+  protected getLangUseModel(): string {
+    return 'PersonalAccessToken'
+  }
+
+  /**
+   * Creates a personal access token, which is stored hashed,
+   * so it can only be read once from the result.
+   *
+   * @param name
+   * @param scopes
+   * @param expiresAt
+   * @param userId
+   *
+   * @throws BadRequestException
+   */
+  async create(
+    { name, scopes, expiresAt }: CreatePersonalAccessTokenDto,
+    userId: string
+  ): Promise<PersonalAccessToken & { token: string }> {
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException(
+        await this.lang.get('error.bad_request.expires_at')
+      )
+    }
+
+    const token = personalAccessTokenPrefix + randomBytes(32).toString('hex')
+    const personalAccessToken = await this.db.personalAccessToken.create({
+      data: {
+        name,
+        tokenHash: this.hash.digest(token),
+        scopes: Array.from(new Set(scopes)).join(' '),
+        expiresAt,
+        userId,
+      },
+    })
+
+    return { ...personalAccessToken, token }
+  }
+
+  /**
+   * Gets a page of the personal access tokens of a user, latest first.
+   *
+   * @param userId
+   * @param query
+   */
+  async list(
+    userId: string,
+    query: PaginationQueryDto
+  ): Promise<Paginated<PersonalAccessToken>> {
+    return await this.paginate(query, (args) =>
+      this.db.personalAccessToken.findMany({
+        where: { userId },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...args,
+      })
+    )
+  }
+
+  /**
+   * Revokes a personal access token of a user.
+   *
+   * @param id
+   * @param userId
+   *
+   * @throws NotFoundException
+   */
+  async revoke(id: string, userId: string): Promise<void> {
+    const { count } = await this.db.personalAccessToken.deleteMany({
+      where: { id, userId },
+    })
+
+    if (count === 0) {
+      throw new NotFoundException(
+        await this.lang.get('error.not_found.id', { args: { id } })
+      )
+    }
+  }
+
+  /**
+   * Verifies a personal access token, recording its use.
+   *
+   * @param token
+   * @return its user and scopes, or undefined when invalid, expired
+   * or its user is deleted
+   */
+  async authenticate(
+    token: string
+  ): Promise<{ user: User; scopes: Scope[] } | undefined> {
+    const personalAccessToken = await this.db.personalAccessToken.findUnique({
+      where: { tokenHash: this.hash.digest(token) },
+      include: { user: true },
+    })
+
+    if (
+      !personalAccessToken ||
+      personalAccessToken.user.deletedAt ||
+      (personalAccessToken.expiresAt &&
+        personalAccessToken.expiresAt <= new Date())
+    ) {
+      return undefined
+    }
+
+    await this.db.personalAccessToken.update({
+      where: { id: personalAccessToken.id },
+      data: { lastUsedAt: new Date() },
+    })
+
+    return {
+      user: personalAccessToken.user,
+      scopes: personalAccessToken.scopes.split(' ') as Scope[],
+    }
+  }
+}
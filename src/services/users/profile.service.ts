@@ -1,13 +1,17 @@
 import { Inject, Injectable } from '@nestjs/common'
 import { CreateProfileDto, SaveProfileDto } from '~/types/user/profile'
 import { DatabaseService } from '~/services/database.service'
-import { Profile } from '@prisma/client'
+import { Profile, ProfileStatus } from '@prisma/client'
+import { ProfileStatusService } from '~/services/users/status.service'
 
 @Injectable()
 export class ProfileService {
   @Inject()
   private readonly db!: DatabaseService
 
+  @Inject()
+  private readonly statusService!: ProfileStatusService
+
   /**
    * Saves user profile
    *
@@ -58,4 +62,26 @@ export class ProfileService {
   async findByUser(userId: string): Promise<Profile | null> {
     return await this.db.profile.findUnique({ where: { userId } })
   }
+
+  /**
+   * Finds user profile with its unexpired status by user id
+   *
+   * @param userId
+   */
+  async findWithStatus(
+    userId: string
+  ): Promise<{ profile: Profile | null; status: ProfileStatus | null }> {
+    const result = await this.db.profile.findUnique({
+      where: { userId },
+      include: { status: true },
+    })
+
+    if (!result) {
+      return { profile: null, status: null }
+    }
+
+    const { status, ...profile } = result
+
+    return { profile, status: this.statusService.visible(status) }
+  }
 }
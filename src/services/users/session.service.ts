@@ -0,0 +1,129 @@
+import { Injectable, NotFoundException } from '@nestjs/common'
+import { Session } from '@prisma/client'
+import { CoreService } from '~/services/common/core.service'
+import { DeviceInfo } from '~/types/user/session'
+import { Paginated, PaginationQueryDto } from '~/types/pagination'
+
+@Injectable()
+export class SessionService extends CoreService {
+  protected getLangUseModel(): string {
+    return 'Session'
+  }
+
+  /**
+   * Starts a session of a user on a device.
+   *
+   * @param userId
+   * @param device
+   */
+  async create(userId: string, { ip, userAgent }: DeviceInfo = {}) {
+    return await this.db.session.create({
+      data: {
+        userId,
+        ip: ip?.slice(0, 45),
+        userAgent: userAgent?.slice(0, 255),
+      },
+    })
+  }
+
+  /**
+   * Finds an active session by id.
+   *
+   * @param id
+   */
+  async findActive(id: string): Promise<Session | null> {
+    return await this.db.session.findFirst({
+      where: { id, revokedAt: null, expiresAt: { gt: new Date() } },
+    })
+  }
+
+  /**
+   * Marks a session as used, extending it until its latest refresh token expires.
+   *
+   * @param id
+   * @param expiresAt
+   */
+  async touch(id: string, expiresAt: Date): Promise<void> {
+    await this.db.session.update({
+      where: { id },
+      data: { lastUsedAt: new Date(), expiresAt },
+    })
+  }
+
+  /**
+   * Gets a page of the active sessions of a user, most recently used first.
+   *
+   * @param userId
+   * @param query
+   */
+  async list(
+    userId: string,
+    query: PaginationQueryDto
+  ): Promise<Paginated<Session>> {
+    return await this.paginate(query, (args) =>
+      this.db.session.findMany({
+        where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+        orderBy: [{ lastUsedAt: 'desc' }, { id: 'asc' }],
+        ...args,
+      })
+    )
+  }
+
+  /**
+   * Revokes a session of a user with its refresh tokens.
+   *
+   * @param id
+   * @param userId the owner of the session
+   *
+   * @throws NotFoundException
+   */
+  async revoke(id: string, userId: string): Promise<void> {
+    if (!(await this.end(id, userId))) {
+      throw new NotFoundException(
+        await this.lang.get('error.not_found.id', { args: { id } })
+      )
+    }
+  }
+
+  /**
+   * Ends a session with its refresh tokens.
+   *
+   * @param id
+   * @param userId
+   * @return whether an active session was ended
+   */
+  async end(id: string, userId?: string): Promise<boolean> {
+    const now = new Date()
+    const [{ count }] = await this.db.$transaction([
+      this.db.session.updateMany({
+        where: { id, userId, revokedAt: null },
+        data: { revokedAt: now },
+      }),
+      this.db.refreshToken.updateMany({
+        where: { sessionId: id, userId, revokedAt: null },
+        data: { revokedAt: now },
+      }),
+    ])
+
+    return count > 0
+  }
+
+  /**
+   * Revokes every session of a user with their refresh tokens.
+   *
+   * @param userId
+   * @param now
+   */
+  async revokeAll(userId: string, now = new Date()): Promise<void> {
+    await this.db.$transaction([
+      this.db.session.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: now },
+      }),
+      this.db.refreshToken.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: now },
+      }),
+    ])
+  }
+}
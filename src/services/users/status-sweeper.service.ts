@@ -0,0 +1,26 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { ConfigKey, ProfileConfig } from '~/config/config.interface'
+import { IntervalService } from '~/services/common/interval.service'
+import { ProfileStatusService } from '~/services/users/status.service'
+
+/**
+ * Clears the profile statuses which have expired.
+ */
+@Injectable()
+export class StatusSweeperService extends IntervalService {
+  @Inject()
+  private readonly statusService!: ProfileStatusService
+
+  protected getIntervalSeconds(): number {
+    return this.config.get<ProfileConfig>(ConfigKey.Profile)!
+      .statusSweepIntervalSeconds
+  }
+
+  protected async run() {
+    const count = await this.statusService.sweep()
+
+    if (count > 0) {
+      this.logger.log(`Cleared ${count} expired profile status(es).`)
+    }
+  }
+}
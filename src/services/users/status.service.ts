@@ -1,7 +1,9 @@
 import { Inject, Injectable } from '@nestjs/common'
 import { DatabaseService } from '~/services/database.service'
 import { SaveProfileStatusDto } from '~/types/user/profile'
-import { ProfileStatus } from '@prisma/client'
+import { ProfileStatus, StatusClearInterval } from '@prisma/client'
+
+const minuteInMs = 60 * 1000
 
 @Injectable()
 export class ProfileStatusService {
@@ -9,26 +11,102 @@ export class ProfileStatusService {
   private readonly db!: DatabaseService
 
   /**
-   * Saves user profile status
+   * Saves user profile status, which expires after its clear interval
    *
    * @param data
    * @param profileId
    */
   async save(
-    data: SaveProfileStatusDto,
+    {
+      clearInterval = StatusClearInterval.NEVER,
+      ...data
+    }: SaveProfileStatusDto,
     profileId: string
   ): Promise<ProfileStatus> {
+    const expiresAt = this.resolveExpiresAt(clearInterval)
+
     return await this.db.profileStatus.upsert({
       where: {
         profileId,
       },
       update: {
         ...data,
+        clearInterval,
+        expiresAt,
       },
       create: {
         ...data,
+        clearInterval,
+        expiresAt,
         profileId,
       },
     })
   }
+
+  /**
+   * Clears the status of user profile
+   *
+   * @param userId
+   * @return whether a status was cleared
+   */
+  async clear(userId: string): Promise<boolean> {
+    const { count } = await this.db.profileStatus.deleteMany({
+      where: { profile: { userId } },
+    })
+
+    return count > 0
+  }
+
+  /**
+   * Hides the status once it has expired
+   *
+   * @param status
+   */
+  visible<T extends ProfileStatus>(status: T | null | undefined): T | null {
+    if (!status || (status.expiresAt && status.expiresAt <= new Date())) {
+      return null
+    }
+
+    return status
+  }
+
+  /**
+   * Deletes all expired statuses
+   *
+   * @return the number of deleted statuses
+   */
+  async sweep(): Promise<number> {
+    const { count } = await this.db.profileStatus.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    })
+
+    return count
+  }
+
+  /**
+   * Gets when a status saved now expires, null for never
+   *
+   * @param clearInterval
+   * @private
+   */
+  private resolveExpiresAt(clearInterval: StatusClearInterval): Date | null {
+    const now = new Date()
+
+    switch (clearInterval) {
+      case StatusClearInterval.THIRTY_MINUTES:
+        return new Date(now.getTime() + 30 * minuteInMs)
+      case StatusClearInterval.FOUR_HOURS:
+        return new Date(now.getTime() + 4 * 60 * minuteInMs)
+      case StatusClearInterval.TODAY:
+        // The coming midnight
+        return new Date(now.setHours(24, 0, 0, 0))
+      case StatusClearInterval.THIS_WEEK:
+        // The coming Monday midnight
+        return new Date(
+          now.setHours(24 * (7 - ((now.getDay() + 6) % 7)), 0, 0, 0)
+        )
+      default:
+        return null
+    }
+  }
 }
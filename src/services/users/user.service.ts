@@ -1,19 +1,37 @@
 import {
   BadRequestException,
+  ConflictException,
   Inject,
   Injectable,
   NotFoundException,
 } from '@nestjs/common'
 import { HashService } from '~/services/security/hash.service'
-import { UpdatePasswordDto, UpdateUserDto } from '~/types/user/user'
+import {
+  getReservedField,
+  UpdatePasswordDto,
+  UpdateUserDto,
+} from '~/types/user/user'
 import { User } from '@prisma/client'
 import { CoreService } from '~/services/common/core.service'
+import { notDeleted, publishedPost } from '~/services/common/filters'
+import modelFactory from '~/core/model/model.factory'
+import { UserSummary } from '~/models/user.model'
+import { ProfileClient } from '~/models/profile.model'
+import { ProfileStatusClient } from '~/models/profile-status.model'
+import { ReactionsService } from '~/services/reactions.service'
+import { ProfileStatusService } from '~/services/users/status.service'
 
 @Injectable()
 export class UserService extends CoreService {
   @Inject()
   private readonly hash!: HashService
 
+  @Inject()
+  private readonly reactions!: ReactionsService
+
+  @Inject()
+  private readonly statusService!: ProfileStatusService
+
   protected getLangUseModel(): string {
     return 'User'
   }
@@ -25,6 +43,14 @@ export class UserService extends CoreService {
    * @param id
    */
   async update(data: UpdateUserDto, id: string): Promise<User> {
+    if (getReservedField(data)) {
+      throw new ConflictException(
+        await this.lang.get('error.conflict.username', {
+          args: { username: data.username },
+        })
+      )
+    }
+
     return await this.db.user.update({ where: { id }, data })
   }
 
@@ -56,7 +82,9 @@ export class UserService extends CoreService {
    * @param id
    */
   async getUser(id: string): Promise<User> {
-    const user = await this.db.user.findUnique({ where: { id } })
+    const user = await this.db.user.findFirst({
+      where: { id, ...notDeleted },
+    })
 
     if (!user) {
       throw new NotFoundException(
@@ -73,7 +101,9 @@ export class UserService extends CoreService {
    * @param username
    */
   async getUserByUsername(username: string) {
-    const user = await this.db.user.findUnique({ where: { username } })
+    const user = await this.db.user.findFirst({
+      where: { username, ...notDeleted },
+    })
 
     if (!user) {
       throw new NotFoundException(
@@ -83,4 +113,46 @@ export class UserService extends CoreService {
 
     return user
   }
+
+  /**
+   * Gets the public summary of a user by username.
+   *
+   * @param username
+   */
+  async getSummary(username: string): Promise<UserSummary> {
+    const user = await this.db.user.findFirst({
+      where: { username, ...notDeleted },
+      include: {
+        profile: { include: { status: true } },
+      },
+    })
+
+    if (!user) {
+      throw new NotFoundException(
+        await this.lang.get('error.not_found.username', { args: { username } })
+      )
+    }
+
+    const { profile, ...rest } = user
+    const status = this.statusService.visible(profile?.status)
+
+    return modelFactory.make(UserSummary, {
+      ...rest,
+      profile: profile ? modelFactory.make(ProfileClient, profile) : null,
+      status: status ? modelFactory.make(ProfileStatusClient, status) : null,
+      followerCount: await this.db.user.count({
+        where: { following: { some: { id: user.id } }, ...notDeleted },
+      }),
+      followingCount: await this.db.user.count({
+        where: { followedBy: { some: { id: user.id } }, ...notDeleted },
+      }),
+      postCount: await this.db.post.count({
+        where: { authorId: user.id, ...publishedPost },
+      }),
+      commentCount: await this.db.comment.count({
+        where: { authorId: user.id, ...notDeleted },
+      }),
+      reactionCount: await this.reactions.countReceived(user.id),
+    })
+  }
 }
@@ -0,0 +1,154 @@
+import { Injectable } from '@nestjs/common'
+import { createHash } from 'crypto'
+import { CoreService } from '~/services/common/core.service'
+import { ConfigKey, ViewConfig } from '~/config/config.interface'
+import { ViewerInfo, ViewStatsQueryDto, ViewStatsResponse } from '~/types/view'
+
+const dayInMs = 24 * 60 * 60 * 1000
+
+@Injectable()
+export class ViewsService extends CoreService {
+  protected getLangUseModel(): string {
+    return 'View'
+  }
+
+  /**
+   * Records a view of a post, unless the same viewer has already viewed it
+   * within the current de-duplication window. The windows are fixed spans
+   * of `dedupeMinutes`, which key the views so that the database writes
+   * only one of a viewer's views per window, even concurrent ones.
+   *
+   * @param postId
+   * @param viewer
+   * @return whether a new view was recorded
+   */
+  async recordPostView(postId: string, viewer: ViewerInfo): Promise<boolean> {
+    const userId = viewer.userId
+    const visitor = userId ? undefined : this.fingerprint(viewer)
+
+    if (!userId && !visitor) {
+      return false
+    }
+
+    const { count } = await this.db.view.createMany({
+      data: [
+        {
+          postId,
+          userId,
+          visitor,
+          dedupeKey: this.dedupeKey(postId, userId ?? visitor!),
+        },
+      ],
+      skipDuplicates: true,
+    })
+
+    return count > 0
+  }
+
+  /**
+   * Counts views of many posts at once, keyed by post id.
+   *
+   * @param postIds
+   */
+  async countPosts(postIds: string[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>(postIds.map((id) => [id, 0]))
+
+    if (postIds.length === 0) {
+      return counts
+    }
+
+    const groups = await this.db.view.groupBy({
+      by: ['postId'],
+      where: { postId: { in: postIds } },
+      _count: { _all: true },
+    })
+
+    for (const group of groups) {
+      counts.set(group.postId!, group._count._all)
+    }
+
+    return counts
+  }
+
+  /**
+   * Gets daily views of all posts of an author.
+   *
+   * @param authorId
+   * @param days
+   */
+  async getAuthorStats(
+    authorId: string,
+    { days = this.getConfig().analyticsDays }: ViewStatsQueryDto
+  ): Promise<ViewStatsResponse> {
+    const today = new Date()
+    today.setUTCHours(0, 0, 0, 0)
+    const since = new Date(today.getTime() - (days - 1) * dayInMs)
+
+    const rows = await this.db.$queryRaw<{ date: Date; count: number }[]>`
+      SELECT DATE(v.createdAt) AS date, COUNT(*) AS count
+      FROM View v
+      INNER JOIN Post p ON p.id = v.postId
+      WHERE p.authorId = ${authorId} AND p.deletedAt IS NULL
+        AND v.createdAt >= ${since}
+      GROUP BY DATE(v.createdAt)`
+
+    const counts = new Map<string, number>(
+      rows.map(({ date, count }) => [this.formatDate(date), Number(count)])
+    )
+
+    const series = Array.from(Array(days), (_, index) => {
+      const date = this.formatDate(new Date(since.getTime() + index * dayInMs))
+
+      return { date, count: counts.get(date) || 0 }
+    })
+
+    return {
+      total: series.reduce((total, { count }) => total + count, 0),
+      series,
+    }
+  }
+
+  /**
+   * Hashes the ip and user agent of an anonymous viewer,
+   * so no raw personal data is stored.
+   *
+   * @param ip
+   * @param userAgent
+   * @private
+   */
+  private fingerprint({ ip, userAgent }: ViewerInfo): string | undefined {
+    if (!ip) {
+      return undefined
+    }
+
+    return createHash('sha256')
+      .update(`${ip}|${userAgent || ''}`)
+      .digest('hex')
+  }
+
+  /**
+   * Keys a view by its post, its viewer and the de-duplication window
+   * it falls in.
+   *
+   * @param postId
+   * @param viewer the user id or the visitor fingerprint
+   * @private
+   */
+  private dedupeKey(postId: string, viewer: string): string {
+    const window = Math.floor(
+      Date.now() / (this.getConfig().dedupeMinutes * 60000)
+    )
+
+    return createHash('sha256')
+      .update(`${postId}|${viewer}|${window}`)
+      .digest('hex')
+  }
+
+  private formatDate(date: Date): string {
+    return new Date(date).toISOString().slice(0, 10)
+  }
+
+  private getConfig() {
+    return this.config.get<ViewConfig>(ConfigKey.View)!
+  }
+}
@@ -0,0 +1,55 @@
+import { IsInt, IsNotEmpty, IsOptional, IsString, Min } from 'class-validator'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import { TranslationParams } from '~/enums/TranslationParams'
+import { PaginationQueryDto } from '~/types/pagination'
+
+export class CreateCommentDto {
+  @ApiProperty()
+  @IsNotEmpty()
+  @IsString()
+  content!: string
+
+  @ApiPropertyOptional({
+    description: 'The ID of the comment to reply to.',
+  })
+  @IsOptional()
+  @IsString()
+  parentId?: string
+}
+
+export class UpdateCommentDto {
+  @ApiProperty()
+  @IsNotEmpty()
+  @IsString()
+  content!: string
+}
+
+export class DeleteCommentResponse {
+  @ApiProperty({
+    description: 'The ID of the deleted comment.',
+  })
+  id!: string
+}
+
+export class CommentTreeQueryDto {
+  @ApiPropertyOptional({
+    description: 'How many levels of comments to load (capped by config).',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1, { context: { [TranslationParams.min]: 1 } })
+  depth?: number
+}
+
+export class CommentRepliesQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'How many levels of replies to load (capped by config).',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1, { context: { [TranslationParams.min]: 1 } })
+  depth?: number
+}
@@ -1,6 +1,12 @@
 import { Request as ExpressRequest } from 'express'
 import { User } from '~/models/user.model'
+import { Scope } from '~/enums/Scope'
 
 export interface Request extends ExpressRequest {
   user?: User
+
+  sessionId?: string
+
+  /** The scopes of a personal access token, JWT ones have no limits. */
+  scopes?: Scope[]
 }
@@ -0,0 +1,13 @@
+export interface MailMessage {
+  to: string
+
+  subject: string
+
+  text: string
+
+  html?: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>
+}
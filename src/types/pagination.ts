@@ -0,0 +1,55 @@
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import { TranslationParams } from '~/enums/TranslationParams'
+
+export const defaultPageLimit = 20
+export const maxPageLimit = 100
+
+export interface PageArgs {
+  take: number
+  skip?: number
+  cursor?: { id: string }
+}
+
+export class PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'The `nextCursor` of the previous page.',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string
+
+  @ApiPropertyOptional({ default: defaultPageLimit, maximum: maxPageLimit })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1, { context: { [TranslationParams.min]: 1 } })
+  @Max(maxPageLimit, { context: { [TranslationParams.max]: maxPageLimit } })
+  limit?: number
+}
+
+export class Paginated<T> {
+  items: T[]
+
+  @ApiProperty({ type: String, nullable: true })
+  nextCursor: string | null
+
+  @ApiProperty()
+  hasMore: boolean
+
+  constructor(items: T[], nextCursor: string | null) {
+    this.items = items
+    this.nextCursor = nextCursor
+    this.hasMore = nextCursor !== null
+  }
+
+  /**
+   * Maps the items of the page, keeping its cursor.
+   *
+   * @param fn
+   */
+  map<R>(fn: (items: T[]) => R[]): Paginated<R> {
+    return new Paginated(fn(this.items), this.nextCursor)
+  }
+}
@@ -1,5 +1,13 @@
-import { IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator'
+import {
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator'
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
 
 export class CreatePostDto {
   @ApiProperty()
@@ -16,6 +24,26 @@ export class CreatePostDto {
   @IsOptional()
   @IsString()
   content?: string
+
+  @ApiPropertyOptional({
+    type: String,
+    isArray: true,
+    description: 'Tag names, created when they do not exist yet.',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[]
+
+  @ApiPropertyOptional({
+    type: Date,
+    description:
+      'Keeps the post as a draft and publishes it automatically at this future time. Not allowed with `published: true`, or on a published post unless unpublishing it.',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  publishAt?: Date
 }
 
 export class UpdatePostDto {
@@ -33,6 +61,26 @@ export class UpdatePostDto {
   @IsOptional()
   @IsString()
   content?: string
+
+  @ApiPropertyOptional({
+    type: String,
+    isArray: true,
+    description: 'Tag names, created when they do not exist yet.',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[]
+
+  @ApiPropertyOptional({
+    type: Date,
+    description:
+      'Keeps the post as a draft and publishes it automatically at this future time. Not allowed with `published: true`, or on a published post unless unpublishing it.',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  publishAt?: Date
 }
 
 export class DeletePostResponse {
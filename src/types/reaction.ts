@@ -0,0 +1,27 @@
+import { IsEnum, IsNotEmpty } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { ReactionName } from '@prisma/client'
+
+export type ReactionCounts = Record<ReactionName, number>
+
+export class ToggleReactionDto {
+  @ApiProperty({ enum: ReactionName })
+  @IsNotEmpty()
+  @IsEnum(ReactionName)
+  name!: ReactionName
+}
+
+export class ReactionSummary {
+  @ApiProperty({
+    description: 'The number of reactions per type.',
+    example: { LIKE: 1, LOVE: 0, CLAP: 0, DISLIKE: 0, SHOCKED: 0, COOL: 0 },
+  })
+  counts!: ReactionCounts
+
+  @ApiProperty({
+    enum: ReactionName,
+    nullable: true,
+    description: "The current viewer's own reaction.",
+  })
+  viewerReaction!: ReactionName | null
+}
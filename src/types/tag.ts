@@ -0,0 +1,18 @@
+import { IsNotEmpty, IsString } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class RenameTagDto {
+  @ApiProperty()
+  @IsNotEmpty()
+  @IsString()
+  name!: string
+}
+
+export class MergeTagDto {
+  @ApiProperty({
+    description: 'The name of the tag to merge into.',
+  })
+  @IsNotEmpty()
+  @IsString()
+  target!: string
+}
@@ -64,18 +64,72 @@ export class RefreshTokenDto {
   @IsString()
   refreshToken!: string
 
-  @ApiPropertyOptional()
+  @ApiPropertyOptional({
+    description: 'Defaults to the one used when the session started.',
+  })
   @IsOptional()
   @IsBoolean()
   remembers?: boolean
 }
 
+export class LogoutDto {
+  @ApiProperty({ description: 'The refresh token of the session to end.' })
+  @IsNotEmpty()
+  @IsString()
+  refreshToken!: string
+}
+
+export class ForgotPasswordDto {
+  @ApiProperty()
+  @IsNotEmpty()
+  @IsEmail()
+  email!: string
+}
+
+export class ResetPasswordDto {
+  @ApiProperty({ description: 'The token from the password reset link.' })
+  @IsNotEmpty()
+  @IsString()
+  token!: string
+
+  @ApiProperty()
+  @IsNotEmpty()
+  @MinLength(6, { context: { [TranslationParams.min]: 6 } })
+  @IsString()
+  password!: string
+}
+
+export class VerifyEmailDto {
+  @ApiProperty({ description: 'The token from the verification link.' })
+  @IsNotEmpty()
+  @IsString()
+  token!: string
+}
+
 export const authTokenKey = 'userId'
 
 export interface AuthTokenPayloadForSigning {
   [authTokenKey]: string
 }
 
+export enum TokenType {
+  Access = 'access',
+  Refresh = 'refresh',
+  Mfa = 'mfa',
+}
+
+export interface AuthTokenPayload extends AuthTokenPayloadForSigning {
+  typ: TokenType
+  aud: TokenType
+  iat: number
+  exp: number
+  jti?: string
+  /** The session the token belongs to. */
+  sid?: string
+  /** Whether to remember the session, carried by MFA tokens. */
+  rem?: boolean
+}
+
 export interface AuthToken {
   accessToken: string
 
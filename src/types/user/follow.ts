@@ -0,0 +1,6 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+export class FollowResponse {
+  @ApiProperty()
+  isFollowing!: boolean
+}
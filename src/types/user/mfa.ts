@@ -0,0 +1,56 @@
+import { IsNotEmpty, IsString } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class MfaCodeDto {
+  @ApiProperty({ description: 'A code of the authenticator app.' })
+  @IsNotEmpty()
+  @IsString()
+  code!: string
+}
+
+export class VerifyMfaDto {
+  @ApiProperty({ description: 'The token returned by login.' })
+  @IsNotEmpty()
+  @IsString()
+  mfaToken!: string
+
+  @ApiProperty({
+    description: 'A code of the authenticator app, or a recovery code.',
+  })
+  @IsNotEmpty()
+  @IsString()
+  code!: string
+}
+
+export interface MfaChallenge {
+  mfaRequired: true
+
+  mfaToken: string
+}
+
+export class MfaChallengeInstance implements MfaChallenge {
+  @ApiProperty({ enum: [true] })
+  mfaRequired!: true
+
+  @ApiProperty({
+    description:
+      'A short-lived token to exchange with a code for the auth tokens.',
+  })
+  mfaToken!: string
+}
+
+export class MfaEnrollmentResponse {
+  @ApiProperty({ description: 'The base32 secret, to enter it manually.' })
+  secret!: string
+
+  @ApiProperty({ description: 'The otpauth URI, usually shown as QR code.' })
+  uri!: string
+}
+
+export class RecoveryCodesResponse {
+  @ApiProperty({
+    type: [String],
+    description: 'Each can be used once instead of a code, shown only once.',
+  })
+  recoveryCodes!: string[]
+}
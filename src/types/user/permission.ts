@@ -0,0 +1,29 @@
+import { IsArray, IsEnum } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { Role } from '@prisma/client'
+import { Permission } from '~/enums/Permission'
+
+export class RoleParamDto {
+  @ApiProperty({ enum: Role })
+  @IsEnum(Role)
+  role!: Role
+}
+
+export class UpdateRolePermissionsDto {
+  @ApiProperty({
+    enum: Permission,
+    isArray: true,
+    description: 'All the permissions of the role, replacing the old ones.',
+  })
+  @IsArray()
+  @IsEnum(Permission, { each: true })
+  permissions!: Permission[]
+}
+
+export class RolePermissionsResponse {
+  @ApiProperty({ enum: Role })
+  role!: Role
+
+  @ApiProperty({ enum: Permission, isArray: true })
+  permissions!: Permission[]
+}
@@ -0,0 +1,42 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDate,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import { Scope } from '~/enums/Scope'
+import { TranslationParams } from '~/enums/TranslationParams'
+
+/**
+ * Tells personal access tokens apart from JWT bearer tokens.
+ */
+export const personalAccessTokenPrefix = 'zhy_'
+
+export class CreatePersonalAccessTokenDto {
+  @ApiProperty({ description: 'What the token is used for.' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100, { context: { [TranslationParams.max]: 100 } })
+  name!: string
+
+  @ApiProperty({ enum: Scope, isArray: true })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(Scope, { each: true })
+  scopes!: Scope[]
+
+  @ApiPropertyOptional({
+    type: Date,
+    description: 'The token never expires without it.',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  expiresAt?: Date
+}
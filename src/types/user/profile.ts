@@ -1,15 +1,19 @@
 import {
+  IsEnum,
   IsNotEmpty,
-  IsNumber,
   IsObject,
   IsOptional,
   IsString,
   ValidateNested,
 } from 'class-validator'
 import { ApiProperty } from '@nestjs/swagger'
-import { ProfileClient } from '~/models/profile.model'
-import { ProfileStatusClient } from '~/models/profile-status.model'
+import { Profile, ProfileClient } from '~/models/profile.model'
+import {
+  ProfileStatus,
+  ProfileStatusClient,
+} from '~/models/profile-status.model'
 import { Type } from 'class-transformer'
+import { StatusClearInterval } from '@prisma/client'
 
 export class SaveProfileDto {
   @ApiProperty()
@@ -41,10 +45,14 @@ export class SaveProfileStatusDto {
   @IsString()
   emoji?: string
 
-  @ApiProperty()
+  @ApiProperty({
+    enum: StatusClearInterval,
+    default: StatusClearInterval.NEVER,
+    description: 'When the status is cleared automatically.',
+  })
   @IsOptional()
-  @IsNumber()
-  clearInterval?: number
+  @IsEnum(StatusClearInterval)
+  clearInterval?: StatusClearInterval
 }
 
 export class CreateProfileStatusDto extends SaveProfileStatusDto {
@@ -74,3 +82,24 @@ export class SaveProfileResponse {
 
   status?: ProfileStatusClient
 }
+
+export class OwnProfileResponse {
+  @ApiProperty({ type: Profile, nullable: true })
+  profile!: Profile | null
+
+  @ApiProperty({ type: ProfileStatus, nullable: true })
+  status!: ProfileStatus | null
+}
+
+export class UserProfileResponse {
+  @ApiProperty({ type: ProfileClient, nullable: true })
+  profile!: ProfileClient | null
+
+  @ApiProperty({ type: ProfileStatusClient, nullable: true })
+  status!: ProfileStatusClient | null
+}
+
+export class ClearProfileStatusResponse {
+  @ApiProperty({ description: 'Whether a status was cleared.' })
+  data!: boolean
+}
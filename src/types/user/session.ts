@@ -0,0 +1,5 @@
+export interface DeviceInfo {
+  ip?: string
+
+  userAgent?: string
+}
@@ -10,6 +10,7 @@ import {
 } from 'class-validator'
 import { Role } from '@prisma/client'
 import { TranslationParams } from '~/enums/TranslationParams'
+import { PaginationQueryDto } from '~/types/pagination'
 
 export class CreateUserDto {
   @ApiProperty()
@@ -66,6 +67,46 @@ export class UpdatePasswordDto extends ForceUpdatePasswordDto {
   currentPassword!: string
 }
 
+export class DeleteAccountDto {
+  @ApiProperty({ description: 'The current password, to confirm.' })
+  @IsNotEmpty()
+  @IsString()
+  password!: string
+}
+
+/**
+ * Holds the content kept from anonymized accounts, seeded by a migration.
+ * Its email and username are reserved, and nobody can log in as it.
+ */
+export const deletedUser = {
+  id: 'deleted-user',
+  email: 'deleted-user@zhihuyou.local',
+  username: 'deleted-user',
+}
+
+/**
+ * Gets which of the email or username is reserved for the deleted user
+ * placeholder, if any.
+ *
+ * @param email
+ * @param username
+ */
+export const getReservedField = ({
+  email,
+  username,
+}: {
+  email?: string
+  username?: string
+}): 'email' | 'username' | undefined => {
+  if (email?.toLowerCase() === deletedUser.email) {
+    return 'email'
+  }
+
+  if (username?.toLowerCase() === deletedUser.username) {
+    return 'username'
+  }
+}
+
 export class UpdateEmailDto {
   @ApiProperty()
   @IsNotEmpty()
@@ -108,7 +149,7 @@ export class ForceUpdateUserDto {
   role?: Role
 }
 
-export class SearchUserDto {
+export class SearchUserDto extends PaginationQueryDto {
   @ApiProperty()
   @IsOptional()
   @IsString()
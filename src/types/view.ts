@@ -0,0 +1,38 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import { TranslationParams } from '~/enums/TranslationParams'
+
+export interface ViewerInfo {
+  userId?: string
+  ip?: string
+  userAgent?: string
+}
+
+export class ViewStatsQueryDto {
+  @ApiPropertyOptional({
+    description: 'How many days to look back, including today.',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1, { context: { [TranslationParams.min]: 1 } })
+  @Max(365, { context: { [TranslationParams.max]: 365 } })
+  days?: number
+}
+
+export class ViewStatsPoint {
+  @ApiProperty({ example: '2021-06-01' })
+  date!: string
+
+  @ApiProperty()
+  count!: number
+}
+
+export class ViewStatsResponse {
+  @ApiProperty({ description: 'Total views in the period.' })
+  total!: number
+
+  @ApiProperty({ type: ViewStatsPoint, isArray: true })
+  series!: ViewStatsPoint[]
+}
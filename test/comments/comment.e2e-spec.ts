@@ -0,0 +1,396 @@
+import { HttpStatus, INestApplication } from '@nestjs/common'
+import { DatabaseService } from '~/services/database.service'
+import {
+  createModeratorUser,
+  createUser,
+  http,
+  resetsDatabaseAfterAll,
+  setupNestApp,
+} from 'test/helpers'
+import * as faker from 'faker'
+import { Comment as CommentObject } from '@prisma/client'
+import { Comment, deletedCommentContent } from '~/models/comment.model'
+
+const getFakerPost = () => ({
+  title: faker.lorem.word(10),
+  content: faker.lorem.words(20),
+  published: true,
+})
+
+const getFakerComment = () => ({
+  content: faker.lorem.words(10),
+})
+
+describe('CommentsController (e2e)', () => {
+  let app: INestApplication
+  let db: DatabaseService
+
+  const createPostWithComment = async () => {
+    const { user, tokens } = await createUser(app)
+    const post = await db.post.create({ data: getFakerPost() })
+    const comment = await db.comment.create({
+      data: {
+        ...getFakerComment(),
+        postId: post.id,
+        authorId: user.id,
+      },
+    })
+
+    return { user, tokens, post, comment }
+  }
+
+  beforeAll(async () => {
+    app = await setupNestApp()
+    db = app.get(DatabaseService)
+  })
+
+  resetsDatabaseAfterAll(() => app)
+
+  describe('@GET /posts/:id/comments', () => {
+    it('should return 200 with comments of the post', async () => {
+      const { post, comment } = await createPostWithComment()
+
+      return http(app)
+        .get(`/posts/${post.id}/comments`)
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toMatchObject([new Comment(comment).toJson()])
+          expect(body.hasMore).toBe(false)
+        })
+    })
+
+    it('should return 404 if post does not exist', async () => {
+      const id = faker.datatype.uuid()
+
+      return http(app)
+        .get(`/posts/${id}/comments`)
+        .expect(HttpStatus.NOT_FOUND)
+        .then(({ body }) => {
+          expect(body.message).toBe(`Post cannot be found for id: ${id}.`)
+        })
+    })
+  })
+
+  describe('@GET /posts/:id/comments/tree', () => {
+    it('should return nested replies limited by depth', async () => {
+      const { user, post, comment } = await createPostWithComment()
+      const reply = await db.comment.create({
+        data: {
+          ...getFakerComment(),
+          postId: post.id,
+          authorId: user.id,
+          parentId: comment.id,
+        },
+      })
+      await db.comment.create({
+        data: {
+          ...getFakerComment(),
+          postId: post.id,
+          authorId: user.id,
+          parentId: reply.id,
+        },
+      })
+
+      return http(app)
+        .get(`/posts/${post.id}/comments/tree`)
+        .query({ depth: 2 })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toHaveLength(1)
+          expect(body[0]).toMatchObject({ id: comment.id, replyCount: 1 })
+          expect(body[0].replies[0]).toMatchObject({
+            id: reply.id,
+            replyCount: 1,
+            replies: [],
+          })
+        })
+    })
+
+    it('should return depth validation errors', async () => {
+      const { post } = await createPostWithComment()
+
+      return http(app)
+        .get(`/posts/${post.id}/comments/tree`)
+        .query({ depth: 0 })
+        .expect(HttpStatus.BAD_REQUEST)
+        .then(({ body }) => {
+          expect(body.message).toMatchObject(['depth must not be less than 1'])
+        })
+    })
+  })
+
+  describe('@GET /comments/:id/replies', () => {
+    it('should page replies of a branch with the cursor', async () => {
+      const { user, post, comment } = await createPostWithComment()
+      const replies: CommentObject[] = []
+
+      for (const _ of Array(6).fill('')) {
+        replies.push(
+          await db.comment.create({
+            data: {
+              ...getFakerComment(),
+              postId: post.id,
+              authorId: user.id,
+              parentId: comment.id,
+            },
+          })
+        )
+      }
+
+      const nextCursor = await http(app)
+        .get(`/comments/${comment.id}/replies`)
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toHaveLength(5)
+          expect(body.nextCursor).toBe(replies[4].id)
+          expect(body.hasMore).toBe(true)
+
+          return body.nextCursor
+        })
+
+      return http(app)
+        .get(`/comments/${comment.id}/replies`)
+        .query({ cursor: nextCursor })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toMatchObject([{ id: replies[5].id }])
+          expect(body.nextCursor).toBeNull()
+          expect(body.hasMore).toBe(false)
+        })
+    })
+  })
+
+  describe('@POST /posts/:id/comments', () => {
+    it('should return 201 correctly', async () => {
+      const { user, tokens } = await createUser(app)
+      const post = await db.post.create({ data: getFakerPost() })
+      const form = getFakerComment()
+
+      return http(app)
+        .post(`/posts/${post.id}/comments`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send(form)
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          expect(body).toMatchObject({
+            ...form,
+            postId: post.id,
+            authorId: user.id,
+          })
+        })
+    })
+
+    it('should return 201 when replying to a comment', async () => {
+      const { tokens, post, comment } = await createPostWithComment()
+      const form = { ...getFakerComment(), parentId: comment.id }
+
+      return http(app)
+        .post(`/posts/${post.id}/comments`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send(form)
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          expect(body).toMatchObject({ ...form, postId: post.id })
+        })
+    })
+
+    it('should return unauthorized if not logged in', async () => {
+      const post = await db.post.create({ data: getFakerPost() })
+
+      return http(app)
+        .post(`/posts/${post.id}/comments`)
+        .send(getFakerComment())
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it('should return 403 if the email is not verified', async () => {
+      const { user, tokens } = await createUser(app)
+      const post = await db.post.create({ data: getFakerPost() })
+      await db.user.update({
+        where: { id: user.id },
+        data: { emailVerifiedAt: null },
+      })
+
+      return http(app)
+        .post(`/posts/${post.id}/comments`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send(getFakerComment())
+        .expect(HttpStatus.FORBIDDEN)
+    })
+
+    it('should return comment validation errors', async () => {
+      const { tokens } = await createUser(app)
+      const post = await db.post.create({ data: getFakerPost() })
+
+      return http(app)
+        .post(`/posts/${post.id}/comments`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({})
+        .expect(HttpStatus.BAD_REQUEST)
+        .then(({ body }) => {
+          expect(body.message).toMatchObject([
+            'content must be a string',
+            'content should not be empty',
+          ])
+        })
+    })
+  })
+
+  describe('@PUT /comments/:id', () => {
+    const uri = '/comments/'
+
+    it('should return 200 with updated comment', async () => {
+      const { tokens, comment } = await createPostWithComment()
+      const form = getFakerComment()
+
+      return http(app)
+        .put(uri + comment.id)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send(form)
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toMatchObject({ ...form, id: comment.id })
+        })
+    })
+
+    it("should return 403 if user wants to update other users' comments", async () => {
+      const { comment } = await createPostWithComment()
+      const { tokens } = await createUser(app)
+
+      return http(app)
+        .put(uri + comment.id)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send(getFakerComment())
+        .expect(HttpStatus.FORBIDDEN)
+        .then(({ body }) => {
+          expect(body.message).toBe(
+            "You don't have the permission to update this Comment."
+          )
+        })
+    })
+
+    it("should let moderators update other users' comments", async () => {
+      const { comment } = await createPostWithComment()
+      const { tokens } = await createModeratorUser(app)
+      const form = getFakerComment()
+
+      return http(app)
+        .put(uri + comment.id)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send(form)
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toMatchObject({ ...form, authorId: comment.authorId })
+        })
+    })
+  })
+
+  describe('@DELETE /comments/:id', () => {
+    const uri = '/comments/'
+
+    it('should return 200 and deleted comment id correctly', async () => {
+      const { tokens, comment } = await createPostWithComment()
+
+      return http(app)
+        .delete(uri + comment.id)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toMatchObject({ id: comment.id })
+        })
+    })
+
+    it('should tombstone a comment which has replies', async () => {
+      const { user, tokens, post, comment } = await createPostWithComment()
+      await db.comment.create({
+        data: {
+          ...getFakerComment(),
+          postId: post.id,
+          authorId: user.id,
+          parentId: comment.id,
+        },
+      })
+
+      await http(app)
+        .delete(uri + comment.id)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+
+      return http(app)
+        .get(`/posts/${post.id}/comments/tree`)
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body[0]).toMatchObject({
+            id: comment.id,
+            content: deletedCommentContent,
+            authorId: null,
+            replyCount: 1,
+          })
+        })
+    })
+
+    it('should hide a tombstone once its replies are deleted', async () => {
+      const { user, tokens, post, comment } = await createPostWithComment()
+      const reply = await db.comment.create({
+        data: {
+          ...getFakerComment(),
+          postId: post.id,
+          authorId: user.id,
+          parentId: comment.id,
+        },
+      })
+
+      for (const id of [comment.id, reply.id]) {
+        await http(app)
+          .delete(uri + id)
+          .auth(tokens.accessToken, { type: 'bearer' })
+          .expect(HttpStatus.OK)
+      }
+
+      return http(app)
+        .get(`/posts/${post.id}/comments/tree`)
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toEqual([])
+        })
+    })
+
+    it('should return 404 if comment cannot be found', async () => {
+      const { tokens } = await createUser(app)
+      const id = faker.datatype.uuid()
+
+      return http(app)
+        .delete(uri + id)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NOT_FOUND)
+        .then(({ body }) => {
+          expect(body.message).toBe(`Comment cannot be found for id: ${id}.`)
+        })
+    })
+
+    it("should let moderators delete other users' comments", async () => {
+      const { comment } = await createPostWithComment()
+      const { tokens } = await createModeratorUser(app)
+
+      return http(app)
+        .delete(uri + comment.id)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+    })
+
+    it("should return 403 if user wants to delete other users' comments", async () => {
+      const { comment } = await createPostWithComment()
+      const { tokens } = await createUser(app)
+
+      return http(app)
+        .delete(uri + comment.id)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.FORBIDDEN)
+        .then(({ body }) => {
+          expect(body.message).toBe(
+            "You don't have the permission to delete this Comment."
+          )
+        })
+    })
+  })
+})
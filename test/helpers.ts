@@ -55,14 +55,25 @@ export async function createUser(app: INestApplication) {
       email,
       username: faker.internet.userName(),
       password: await app.get(HashService).make(password),
+      emailVerifiedAt: new Date(),
     },
   })
-  const tokens = app.get(AuthService).generateToken({ [authTokenKey]: user.id })
+  const tokens = await app
+    .get(AuthService)
+    .generateToken({ [authTokenKey]: user.id })
 
   return { user, tokens, password }
 }
 
 export async function createAdminUser(app: INestApplication) {
+  return await createUserWithRole(app, Role.ADMIN)
+}
+
+export async function createModeratorUser(app: INestApplication) {
+  return await createUserWithRole(app, Role.MODERATOR)
+}
+
+async function createUserWithRole(app: INestApplication, role: Role) {
   const db = app.get(DatabaseService)
   const { user, tokens } = await createUser(app)
 
@@ -71,7 +82,7 @@ export async function createAdminUser(app: INestApplication) {
       id: user.id,
     },
     data: {
-      role: Role.ADMIN,
+      role,
       updatedAt: user.createdAt,
     },
   })
@@ -1,10 +1,19 @@
 import { HttpStatus, INestApplication } from '@nestjs/common'
 import { DatabaseService } from '~/services/database.service'
-import { createUser, resetsDatabaseAfterAll, setupNestApp } from 'test/helpers'
+import {
+  createAdminUser,
+  createModeratorUser,
+  createUser,
+  resetsDatabaseAfterAll,
+  setupNestApp,
+} from 'test/helpers'
 import * as faker from 'faker'
 import * as request from 'supertest'
 import modelFactory from '~/core/model/model.factory'
 import { Post } from '~/models/post.model'
+import { PostsService } from '~/services/posts.service'
+import { ConfigService } from '@nestjs/config'
+import { ConfigKey, MfaConfig } from '~/config/config.interface'
 
 const getFakerPost = () => {
   const title = faker.lorem.word(10)
@@ -37,7 +46,7 @@ describe('PostsController (e2e)', () => {
         .get(uri)
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject([])
+          expect(body).toMatchObject({ items: [], nextCursor: null })
         })
 
       for (const item in Array(10).fill('')) {
@@ -48,7 +57,7 @@ describe('PostsController (e2e)', () => {
         .get(uri)
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject([])
+          expect(body).toMatchObject({ items: [], nextCursor: null })
         })
     })
 
@@ -71,9 +80,53 @@ describe('PostsController (e2e)', () => {
         .get(uri)
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject(posts.map((p) => p.toJson()))
+          expect(body.items).toMatchObject(
+            posts.reverse().map((p) => p.toJson())
+          )
+          expect(body.hasMore).toBe(false)
+        })
+    })
+
+    it('should page posts with the cursor', async () => {
+      await db.post.deleteMany()
+      const ids: string[] = []
+
+      for (const _ of Array(3).fill('')) {
+        const post = await db.post.create({
+          data: { ...getFakerPost(), published: true },
+        })
+        ids.unshift(post.id)
+      }
+
+      const nextCursor = await http()
+        .get(uri)
+        .query({ limit: 2 })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items.map(({ id }: { id: string }) => id)).toEqual(
+            ids.slice(0, 2)
+          )
+          expect(body).toMatchObject({ nextCursor: ids[1], hasMore: true })
+
+          return body.nextCursor
+        })
+
+      return http()
+        .get(uri)
+        .query({ limit: 2, cursor: nextCursor })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toMatchObject([{ id: ids[2] }])
+          expect(body).toMatchObject({ nextCursor: null, hasMore: false })
         })
     })
+
+    it('should return 400 if limit is out of range', async () => {
+      return http()
+        .get(uri)
+        .query({ limit: 101 })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
   })
 
   describe('@GET /posts/:id', () => {
@@ -108,6 +161,127 @@ describe('PostsController (e2e)', () => {
           })
         })
     })
+
+    it('should return the own draft to its author', async () => {
+      const { user, tokens } = await createUser(app)
+      const post = await db.post.create({
+        data: { ...getFakerPost(), authorId: user.id },
+      })
+
+      return http()
+        .get(uri + `/${post.id}`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toMatchObject({ id: post.id, publishedAt: null })
+        })
+    })
+
+    it('should return 404 for a draft of another user', async () => {
+      const { user } = await createUser(app)
+      const { tokens } = await createUser(app)
+      const post = await db.post.create({
+        data: { ...getFakerPost(), authorId: user.id },
+      })
+
+      return http()
+        .get(uri + `/${post.id}`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NOT_FOUND)
+    })
+
+    it('should count repeated views of the same visitor once', async () => {
+      const form = getFakerPost()
+      form.published = true
+      const post = await db.post.create({ data: form })
+
+      const view = () =>
+        http()
+          .get(uri + `/${post.id}`)
+          .set('User-Agent', 'e2e-viewer')
+          .expect(HttpStatus.OK)
+
+      await view().then(({ body }) => expect(body.viewCount).toBe(1))
+      await view().then(({ body }) => expect(body.viewCount).toBe(1))
+    })
+
+    it('should count concurrent views of the same visitor once', async () => {
+      const form = getFakerPost()
+      form.published = true
+      const post = await db.post.create({ data: form })
+
+      await Promise.all(
+        Array.from({ length: 3 }, () =>
+          http()
+            .get(uri + `/${post.id}`)
+            .set('User-Agent', 'e2e-concurrent-viewer')
+            .expect(HttpStatus.OK)
+        )
+      )
+
+      expect(await db.view.count({ where: { postId: post.id } })).toBe(1)
+    })
+
+    it('should count views of different users separately', async () => {
+      const form = getFakerPost()
+      form.published = true
+      const post = await db.post.create({ data: form })
+      const { tokens } = await createUser(app)
+
+      await http()
+        .get(uri + `/${post.id}`)
+        .set('User-Agent', 'e2e-anonymous')
+
+      return http()
+        .get(uri + `/${post.id}`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.viewCount).toBe(2)
+        })
+    })
+  })
+
+  describe('@GET /posts/analytics/views', () => {
+    const uri = '/posts/analytics/views'
+
+    it('should return unauthorized if not logged in', async () => {
+      return http().get(uri).expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it('should return daily views of own posts', async () => {
+      const { user, tokens } = await createUser(app)
+      const post = await db.post.create({
+        data: { ...getFakerPost(), published: true, authorId: user.id },
+      })
+      await db.view.createMany({
+        data: [
+          { postId: post.id, visitor: 'a' },
+          { postId: post.id, visitor: 'b' },
+        ],
+      })
+
+      return http()
+        .get(uri)
+        .query({ days: 7 })
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.total).toBe(2)
+          expect(body.series).toHaveLength(7)
+          expect(body.series[6].count).toBe(2)
+        })
+    })
+
+    it('should return 400 if days is out of range', async () => {
+      const { tokens } = await createUser(app)
+
+      return http()
+        .get(uri)
+        .query({ days: 0 })
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
   })
 
   describe('@POST /posts', () => {
@@ -130,10 +304,44 @@ describe('PostsController (e2e)', () => {
         })
     })
 
+    it('should return 201 with normalized tags', async () => {
+      const { tokens } = await createUser(app)
+      const existing = await db.tag.create({ data: { name: 'nestjs' } })
+
+      await http()
+        .post(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ ...form, tags: [' NestJS ', 'Type  Script', 'typescript'] })
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          expect(body.tags.sort()).toMatchObject([
+            'nestjs',
+            'type script',
+            'typescript',
+          ])
+        })
+
+      expect(await db.tag.count({ where: { name: existing.name } })).toBe(1)
+    })
+
     it('should return unauthorized if not logged in', async () => {
       return http().post(uri).send(form).expect(HttpStatus.UNAUTHORIZED)
     })
 
+    it('should return 403 if the email is not verified', async () => {
+      const { user, tokens } = await createUser(app)
+      await db.user.update({
+        where: { id: user.id },
+        data: { emailVerifiedAt: null },
+      })
+
+      return http()
+        .post(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send(form)
+        .expect(HttpStatus.FORBIDDEN)
+    })
+
     it('should return post validation errors', async () => {
       const { tokens } = await createUser(app)
 
@@ -197,7 +405,7 @@ describe('PostsController (e2e)', () => {
         })
     })
 
-    it("should return 400 if user wants to update other users' posts", async () => {
+    it("should return 403 if user wants to update other users' posts", async () => {
       const { user } = await createUser(app)
       const { tokens } = await createUser(app)
       const form = getFakerPost()
@@ -215,7 +423,7 @@ describe('PostsController (e2e)', () => {
         .put(uri + post.id)
         .auth(tokens.accessToken, { type: 'bearer' })
         .send(form)
-        .expect(HttpStatus.BAD_REQUEST)
+        .expect(HttpStatus.FORBIDDEN)
         .then(({ body }) => {
           expect(body.message).toBe(
             "You don't have the permission to update this Post."
@@ -223,6 +431,48 @@ describe('PostsController (e2e)', () => {
         })
     })
 
+    it("should let moderators update other users' posts", async () => {
+      const { user } = await createUser(app)
+      const { tokens } = await createModeratorUser(app)
+      const post = await db.post.create({
+        data: { ...getFakerPost(), authorId: user.id },
+      })
+
+      return http()
+        .put(uri + post.id)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ title: 'moderated' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toMatchObject({ title: 'moderated', authorId: user.id })
+        })
+    })
+
+    it("should not let admins without required 2FA update others' posts", async () => {
+      const { user } = await createUser(app)
+      const { tokens } = await createAdminUser(app)
+      const post = await db.post.create({
+        data: { ...getFakerPost(), authorId: user.id },
+      })
+      const config = app.get(ConfigService).get<MfaConfig>(ConfigKey.Mfa)!
+      config.requiredForAdmins = true
+
+      try {
+        await http()
+          .put(uri + post.id)
+          .auth(tokens.accessToken, { type: 'bearer' })
+          .send({ title: 'overridden' })
+          .expect(HttpStatus.FORBIDDEN)
+          .then(({ body }) => {
+            expect(body.message).toBe(
+              'Administrators must enable two-factor authentication.'
+            )
+          })
+      } finally {
+        config.requiredForAdmins = false
+      }
+    })
+
     it('should return posts details', async () => {
       const { user, tokens } = await createUser(app)
       const form = getFakerPost()
@@ -246,6 +496,214 @@ describe('PostsController (e2e)', () => {
     })
   })
 
+  describe('@GET /posts/drafts', () => {
+    const uri = '/posts/drafts'
+
+    it('should return unauthorized if not logged in', async () => {
+      return http().get(uri).expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it('should return only own unpublished posts', async () => {
+      const { user, tokens } = await createUser(app)
+      const { user: other } = await createUser(app)
+      const draft = await db.post.create({
+        data: { ...getFakerPost(), authorId: user.id },
+      })
+      await db.post.create({
+        data: { ...getFakerPost(), published: true, authorId: user.id },
+      })
+      await db.post.create({
+        data: { ...getFakerPost(), authorId: other.id },
+      })
+
+      return http()
+        .get(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toMatchObject([{ id: draft.id }])
+          expect(body.hasMore).toBe(false)
+        })
+    })
+  })
+
+  describe('@POST /posts/:id/publish', () => {
+    const uri = '/posts/'
+
+    it('should publish and unpublish own post', async () => {
+      const { user, tokens } = await createUser(app)
+      const post = await db.post.create({
+        data: { ...getFakerPost(), authorId: user.id },
+      })
+
+      await http()
+        .post(uri + `${post.id}/publish`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          expect(body.publishedAt).not.toBeNull()
+        })
+
+      await http()
+        .get(uri + post.id)
+        .expect(HttpStatus.OK)
+
+      await http()
+        .post(uri + `${post.id}/unpublish`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          expect(body.publishedAt).toBeNull()
+        })
+
+      return http()
+        .get(uri + post.id)
+        .expect(HttpStatus.NOT_FOUND)
+    })
+
+    it("should return 403 if user wants to publish other users' posts", async () => {
+      const { user } = await createUser(app)
+      const { tokens } = await createUser(app)
+      const post = await db.post.create({
+        data: { ...getFakerPost(), authorId: user.id },
+      })
+
+      return http()
+        .post(uri + `${post.id}/publish`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.FORBIDDEN)
+    })
+  })
+
+  describe('scheduled publishing', () => {
+    const uri = '/posts/'
+    // Dates are serialized without milliseconds
+    const secondsFromNow = (seconds: number) => {
+      const date = new Date(Date.now() + seconds * 1000)
+      date.setMilliseconds(0)
+
+      return date
+    }
+    const inOneHour = () => secondsFromNow(60 * 60)
+
+    it('should keep a post with publishAt as a scheduled draft', async () => {
+      const { tokens } = await createUser(app)
+      const publishAt = inOneHour()
+
+      const id = await http()
+        .post(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ ...getFakerPost(), publishAt })
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          expect(body.publishedAt).toBeNull()
+          expect(new Date(body.publishAt)).toEqual(publishAt)
+
+          return body.id
+        })
+
+      return http()
+        .get(uri + 'scheduled')
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toMatchObject([{ id }])
+        })
+    })
+
+    it('should return 400 if publishAt is in the past', async () => {
+      const { tokens } = await createUser(app)
+
+      return http()
+        .post(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ ...getFakerPost(), publishAt: secondsFromNow(-1) })
+        .expect(HttpStatus.BAD_REQUEST)
+        .then(({ body }) => {
+          expect(body.message).toBe('The publish time must be in the future.')
+        })
+    })
+
+    it('should return 400 if publishAt is given to publish now', async () => {
+      const { tokens } = await createUser(app)
+
+      return http()
+        .post(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ ...getFakerPost(), published: true, publishAt: inOneHour() })
+        .expect(HttpStatus.BAD_REQUEST)
+        .then(({ body }) => {
+          expect(body.message).toBe('A published post cannot be scheduled.')
+        })
+    })
+
+    it('should return 400 if the post is published already', async () => {
+      const { user, tokens } = await createUser(app)
+      const post = await db.post.create({
+        data: {
+          ...getFakerPost(),
+          published: true,
+          publishedAt: new Date(),
+          authorId: user.id,
+        },
+      })
+
+      await http()
+        .put(uri + post.id)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ publishAt: inOneHour() })
+        .expect(HttpStatus.BAD_REQUEST)
+        .then(({ body }) => {
+          expect(body.message).toBe('A published post cannot be scheduled.')
+        })
+
+      expect(
+        await db.post.findUnique({ where: { id: post.id } })
+      ).toMatchObject({ published: true, publishAt: null })
+    })
+
+    it('should cancel the schedule', async () => {
+      const { user, tokens } = await createUser(app)
+      const post = await db.post.create({
+        data: { ...getFakerPost(), publishAt: inOneHour(), authorId: user.id },
+      })
+
+      await http()
+        .delete(uri + `${post.id}/schedule`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.publishAt).toBeNull()
+        })
+
+      return http()
+        .get(uri + 'scheduled')
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toEqual([])
+        })
+    })
+
+    it('should publish due posts at their scheduled time', async () => {
+      const { user } = await createUser(app)
+      const publishAt = secondsFromNow(-1)
+      const post = await db.post.create({
+        data: { ...getFakerPost(), publishAt, authorId: user.id },
+      })
+
+      await app.get(PostsService).publishDue()
+
+      return http()
+        .get(uri + post.id)
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(new Date(body.publishedAt)).toEqual(publishAt)
+          expect(body.publishAt).toBeNull()
+        })
+    })
+  })
+
   describe('@DELETE /posts/:id', () => {
     const uri = '/posts/'
     const form = getFakerPost()
@@ -265,7 +723,7 @@ describe('PostsController (e2e)', () => {
     it('should return 200 and deleted post id correctly', async () => {
       const { tokens, post } = await commonPreform()
 
-      return http()
+      await http()
         .delete(uri + post.id)
         .auth(tokens.accessToken, { type: 'bearer' })
         .expect(HttpStatus.OK)
@@ -274,6 +732,10 @@ describe('PostsController (e2e)', () => {
             id: post.id,
           })
         })
+
+      return http()
+        .get(uri + post.id)
+        .expect(HttpStatus.NOT_FOUND)
     })
 
     it('should return 404 if post cannot be found', async () => {
@@ -289,19 +751,31 @@ describe('PostsController (e2e)', () => {
         })
     })
 
-    it("should return 400 if user wants to delete other users' posts", async () => {
+    it("should return 403 if user wants to delete other users' posts", async () => {
       const { post } = await commonPreform()
       const { tokens } = await createUser(app)
 
       return http()
         .delete(uri + post.id)
         .auth(tokens.accessToken, { type: 'bearer' })
-        .expect(HttpStatus.BAD_REQUEST)
+        .expect(HttpStatus.FORBIDDEN)
         .then(({ body }) => {
           expect(body.message).toBe(
             "You don't have the permission to delete this Post."
           )
         })
     })
+
+    it("should let moderators delete other users' posts", async () => {
+      const { post } = await commonPreform()
+      const { tokens } = await createModeratorUser(app)
+
+      await http()
+        .delete(uri + post.id)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+
+      expect(await db.post.findUnique({ where: { id: post.id } })).toBeNull()
+    })
   })
 })
@@ -0,0 +1,160 @@
+import { HttpStatus, INestApplication } from '@nestjs/common'
+import { DatabaseService } from '~/services/database.service'
+import {
+  createUser,
+  http,
+  resetsDatabaseAfterAll,
+  setupNestApp,
+} from 'test/helpers'
+import * as faker from 'faker'
+import { ReactionName } from '@prisma/client'
+
+const getFakerPost = () => ({
+  title: faker.lorem.word(10),
+  content: faker.lorem.words(20),
+  published: true,
+})
+
+describe('ReactionsController (e2e)', () => {
+  let app: INestApplication
+  let db: DatabaseService
+
+  beforeAll(async () => {
+    app = await setupNestApp()
+    db = app.get(DatabaseService)
+  })
+
+  resetsDatabaseAfterAll(() => app)
+
+  describe('@POST /posts/:id/reactions', () => {
+    it('should add, switch and remove the reaction', async () => {
+      const { tokens } = await createUser(app)
+      const post = await db.post.create({ data: getFakerPost() })
+      const uri = `/posts/${post.id}/reactions`
+
+      await http(app)
+        .post(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ name: ReactionName.LIKE })
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          expect(body).toMatchObject({
+            counts: { LIKE: 1, LOVE: 0 },
+            viewerReaction: ReactionName.LIKE,
+          })
+        })
+
+      await http(app)
+        .post(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ name: ReactionName.LOVE })
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          expect(body).toMatchObject({
+            counts: { LIKE: 0, LOVE: 1 },
+            viewerReaction: ReactionName.LOVE,
+          })
+        })
+
+      return http(app)
+        .post(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ name: ReactionName.LOVE })
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          expect(body).toMatchObject({
+            counts: { LIKE: 0, LOVE: 0 },
+            viewerReaction: null,
+          })
+        })
+    })
+
+    it('should return reactions on post details', async () => {
+      const { user, tokens } = await createUser(app)
+      const { user: other } = await createUser(app)
+      const post = await db.post.create({ data: getFakerPost() })
+      await db.reaction.create({
+        data: { name: ReactionName.CLAP, postId: post.id, userId: user.id },
+      })
+      await db.reaction.create({
+        data: { name: ReactionName.CLAP, postId: post.id, userId: other.id },
+      })
+
+      return http(app)
+        .get(`/posts/${post.id}`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.reactions).toMatchObject({
+            counts: { CLAP: 2 },
+            viewerReaction: ReactionName.CLAP,
+          })
+        })
+    })
+
+    it('should return reaction validation errors', async () => {
+      const { tokens } = await createUser(app)
+      const post = await db.post.create({ data: getFakerPost() })
+
+      return http(app)
+        .post(`/posts/${post.id}/reactions`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ name: 'HAPPY' })
+        .expect(HttpStatus.BAD_REQUEST)
+        .then(({ body }) => {
+          expect(body.message).toMatchObject([
+            'name must be a valid enum value',
+          ])
+        })
+    })
+
+    it('should return unauthorized if not logged in', async () => {
+      const post = await db.post.create({ data: getFakerPost() })
+
+      return http(app)
+        .post(`/posts/${post.id}/reactions`)
+        .send({ name: ReactionName.LIKE })
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+  })
+
+  describe('@POST /comments/:id/reactions', () => {
+    it('should react on the comment', async () => {
+      const { user, tokens } = await createUser(app)
+      const post = await db.post.create({ data: getFakerPost() })
+      const comment = await db.comment.create({
+        data: {
+          content: faker.lorem.words(5),
+          postId: post.id,
+          authorId: user.id,
+        },
+      })
+
+      return http(app)
+        .post(`/comments/${comment.id}/reactions`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ name: ReactionName.COOL })
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          expect(body).toMatchObject({
+            counts: { COOL: 1 },
+            viewerReaction: ReactionName.COOL,
+          })
+        })
+    })
+
+    it('should return 404 if comment does not exist', async () => {
+      const { tokens } = await createUser(app)
+      const id = faker.datatype.uuid()
+
+      return http(app)
+        .post(`/comments/${id}/reactions`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ name: ReactionName.COOL })
+        .expect(HttpStatus.NOT_FOUND)
+        .then(({ body }) => {
+          expect(body.message).toBe(`Comment cannot be found for id: ${id}.`)
+        })
+    })
+  })
+})
@@ -0,0 +1,198 @@
+import { HttpStatus, INestApplication } from '@nestjs/common'
+import { DatabaseService } from '~/services/database.service'
+import {
+  createAdminUser,
+  createModeratorUser,
+  createUser,
+  http,
+  resetsDatabaseAfterAll,
+  setupNestApp,
+} from 'test/helpers'
+import * as faker from 'faker'
+
+const getFakerPost = () => ({
+  title: faker.lorem.word(10),
+  content: faker.lorem.words(20),
+  published: true,
+})
+
+describe('TagsController (e2e)', () => {
+  let app: INestApplication
+  let db: DatabaseService
+
+  const createPostWithTags = async (...names: string[]) => {
+    return await db.post.create({
+      data: {
+        ...getFakerPost(),
+        tags: {
+          connectOrCreate: names.map((name) => ({
+            where: { name },
+            create: { name },
+          })),
+        },
+      },
+    })
+  }
+
+  beforeAll(async () => {
+    app = await setupNestApp()
+    db = app.get(DatabaseService)
+  })
+
+  resetsDatabaseAfterAll(() => app)
+
+  describe('@GET /tags', () => {
+    it('should return tags with usage counts, most used first', async () => {
+      await createPostWithTags('popular', 'rare')
+      await createPostWithTags('popular')
+
+      return http(app)
+        .get('/tags')
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toMatchObject([
+            { name: 'popular', postCount: 2 },
+            { name: 'rare', postCount: 1 },
+          ])
+        })
+    })
+
+    it('should page the tags by cursor, keeping the order', async () => {
+      const { body: first } = await http(app)
+        .get('/tags')
+        .query({ limit: 1 })
+        .expect(HttpStatus.OK)
+
+      expect(first.items).toMatchObject([{ name: 'popular' }])
+      expect(first.hasMore).toBe(true)
+
+      return http(app)
+        .get('/tags')
+        .query({ limit: 1, cursor: first.nextCursor })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toMatchObject([{ name: 'rare', postCount: 1 }])
+        })
+    })
+
+    it('should not count drafts', async () => {
+      await db.post.create({
+        data: {
+          ...getFakerPost(),
+          published: false,
+          tags: { create: { name: 'drafted' } },
+        },
+      })
+
+      return http(app)
+        .get('/tags')
+        .query({ limit: 100 })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(
+            body.items.find((tag: any) => tag.name === 'drafted')
+          ).toMatchObject({ postCount: 0 })
+        })
+    })
+  })
+
+  describe('@GET /tags/:name/posts', () => {
+    it('should return published posts of the tag', async () => {
+      const post = await createPostWithTags('posts-of-tag')
+
+      return http(app)
+        .get('/tags/Posts-Of-Tag/posts')
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toMatchObject([
+            { id: post.id, tags: ['posts-of-tag'] },
+          ])
+        })
+    })
+
+    it('should return 404 if tag does not exist', async () => {
+      return http(app)
+        .get('/tags/missing/posts')
+        .expect(HttpStatus.NOT_FOUND)
+        .then(({ body }) => {
+          expect(body.message).toBe('Tag cannot be found for name: missing.')
+        })
+    })
+  })
+
+  describe('@PUT /tags/:name', () => {
+    it('should return 200 with renamed tag', async () => {
+      const { tokens } = await createAdminUser(app)
+      await createPostWithTags('old-name')
+
+      return http(app)
+        .put('/tags/old-name')
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ name: 'New Name' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toMatchObject({ name: 'new name' })
+        })
+    })
+
+    it('should return 409 if the new name already exists', async () => {
+      const { tokens } = await createAdminUser(app)
+      await createPostWithTags('rename-a', 'rename-b')
+
+      return http(app)
+        .put('/tags/rename-a')
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ name: 'rename-b' })
+        .expect(HttpStatus.CONFLICT)
+        .then(({ body }) => {
+          expect(body.message).toBe('Tag rename-b already exists.')
+        })
+    })
+
+    it('should let moderators rename tags', async () => {
+      const { tokens } = await createModeratorUser(app)
+      await createPostWithTags('moderated-name')
+
+      return http(app)
+        .put('/tags/moderated-name')
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ name: 'renamed-by-moderator' })
+        .expect(HttpStatus.OK)
+    })
+
+    it('should return 403 if operator does not have the permission', async () => {
+      const { tokens } = await createUser(app)
+
+      return http(app)
+        .put('/tags/old-name')
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ name: faker.lorem.word() })
+        .expect(HttpStatus.FORBIDDEN)
+    })
+  })
+
+  describe('@POST /tags/:name/merge', () => {
+    it('should move posts to the target tag and delete the source', async () => {
+      const { tokens } = await createAdminUser(app)
+      const post = await createPostWithTags('merge-source')
+      await createPostWithTags('merge-target')
+
+      await http(app)
+        .post('/tags/merge-source/merge')
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ target: 'merge-target' })
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          expect(body).toMatchObject({ name: 'merge-target' })
+        })
+
+      expect(
+        await db.tag.findUnique({ where: { name: 'merge-source' } })
+      ).toBeNull()
+
+      const tags = await db.post.findUnique({ where: { id: post.id } }).tags()
+
+      expect(tags).toMatchObject([{ name: 'merge-target' }])
+    })
+  })
+})
@@ -0,0 +1,388 @@
+import { HttpStatus, INestApplication } from '@nestjs/common'
+import { existsSync } from 'fs'
+import { DatabaseService } from '~/services/database.service'
+import { TrashService } from '~/services/trash.service'
+import { DataExportService } from '~/services/users/data-export.service'
+import { deletedUser } from '~/types/user/user'
+import {
+  createAdminUser,
+  createUser,
+  http,
+  resetsDatabaseAfterAll,
+  setupNestApp,
+} from 'test/helpers'
+import * as faker from 'faker'
+
+const getFakerPost = () => ({
+  title: faker.lorem.word(10),
+  content: faker.lorem.words(20),
+  published: true,
+})
+
+describe('TrashController (e2e)', () => {
+  let app: INestApplication
+  let db: DatabaseService
+
+  const longAgo = () => new Date(Date.now() - 365 * 24 * 60 * 60 * 1000)
+
+  beforeAll(async () => {
+    app = await setupNestApp()
+    db = app.get(DatabaseService)
+  })
+
+  resetsDatabaseAfterAll(() => app)
+
+  describe('@GET /trash/*', () => {
+    it('should list deleted users, posts and comments only', async () => {
+      const { tokens } = await createAdminUser(app)
+      const { user } = await createUser(app)
+      const post = await db.post.create({
+        data: { ...getFakerPost(), authorId: user.id },
+      })
+      const kept = await db.post.create({ data: getFakerPost() })
+      const comment = await db.comment.create({
+        data: { content: 'gone', postId: kept.id, authorId: user.id },
+      })
+
+      await http(app)
+        .delete(`/users/${user.id}`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+      await db.post.update({
+        where: { id: post.id },
+        data: { deletedAt: new Date() },
+      })
+      await db.comment.update({
+        where: { id: comment.id },
+        data: { deletedAt: new Date() },
+      })
+
+      await http(app)
+        .get('/trash/users')
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items.map((item: any) => item.id)).toEqual([user.id])
+          expect(body.items[0].password).toBeUndefined()
+        })
+
+      await http(app)
+        .get('/trash/posts')
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items.map((item: any) => item.id)).toEqual([post.id])
+        })
+
+      return http(app)
+        .get('/trash/comments')
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toHaveLength(1)
+          expect(body.items[0]).toMatchObject({
+            id: comment.id,
+            content: 'gone',
+          })
+        })
+    })
+
+    it('should return 403 for non-administrators', async () => {
+      const { tokens } = await createUser(app)
+
+      return http(app)
+        .get('/trash/posts')
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.FORBIDDEN)
+    })
+  })
+
+  describe('@POST /trash/*/:id/restore', () => {
+    it('should restore a deleted user who can log in again', async () => {
+      const { tokens } = await createAdminUser(app)
+      const { user, password } = await createUser(app)
+
+      await http(app)
+        .delete(`/users/${user.id}`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+
+      await http(app)
+        .post('/auth/login')
+        .send({ email: user.email, password })
+        .expect(HttpStatus.BAD_REQUEST)
+
+      await http(app)
+        .post(`/trash/users/${user.id}/restore`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          expect(body).toMatchObject({ id: user.id, deletedAt: null })
+        })
+
+      return http(app)
+        .post('/auth/login')
+        .send({ email: user.email, password })
+        .expect(HttpStatus.CREATED)
+    })
+
+    it('should restore a deleted post', async () => {
+      const { tokens } = await createAdminUser(app)
+      const post = await db.post.create({
+        data: { ...getFakerPost(), deletedAt: new Date() },
+      })
+
+      await http(app).get(`/posts/${post.id}`).expect(HttpStatus.NOT_FOUND)
+
+      await http(app)
+        .post(`/trash/posts/${post.id}/restore`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.CREATED)
+
+      return http(app).get(`/posts/${post.id}`).expect(HttpStatus.OK)
+    })
+
+    it('should restore a deleted comment', async () => {
+      const { user, tokens } = await createAdminUser(app)
+      const post = await db.post.create({ data: getFakerPost() })
+      const comment = await db.comment.create({
+        data: {
+          content: 'back',
+          postId: post.id,
+          authorId: user.id,
+          deletedAt: new Date(),
+        },
+      })
+
+      await http(app)
+        .post(`/trash/comments/${comment.id}/restore`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          expect(body).toMatchObject({ id: comment.id, deletedAt: null })
+        })
+    })
+
+    it('should return 404 if the row is not in the trash', async () => {
+      const { tokens } = await createAdminUser(app)
+      const post = await db.post.create({ data: getFakerPost() })
+
+      return http(app)
+        .post(`/trash/posts/${post.id}/restore`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NOT_FOUND)
+    })
+  })
+
+  describe('default queries', () => {
+    const createTrashedPost = async (authorId: string) =>
+      await db.post.create({
+        data: {
+          ...getFakerPost(),
+          authorId,
+          deletedAt: new Date(),
+          tags: {
+            connectOrCreate: {
+              where: { name: 'trashed' },
+              create: { name: 'trashed' },
+            },
+          },
+        },
+      })
+
+    it('should not serve the replies on a trashed post', async () => {
+      const { user } = await createUser(app)
+      const post = await createTrashedPost(user.id)
+      const comment = await db.comment.create({
+        data: { content: 'comment', postId: post.id, authorId: user.id },
+      })
+
+      return http(app)
+        .get(`/comments/${comment.id}/replies`)
+        .expect(HttpStatus.NOT_FOUND)
+    })
+
+    it('should not count the trashed posts of a tag', async () => {
+      const { user } = await createUser(app)
+      await createTrashedPost(user.id)
+
+      return http(app)
+        .get('/tags')
+        .query({ limit: 100 })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(
+            body.items.find((tag: any) => tag.name === 'trashed')
+          ).toMatchObject({ postCount: 0 })
+        })
+    })
+
+    it('should not count what users received on trashed posts', async () => {
+      const { user, tokens } = await createUser(app)
+      const post = await createTrashedPost(user.id)
+      await db.reaction.create({ data: { postId: post.id, userId: user.id } })
+      await db.view.create({ data: { postId: post.id, visitor: 'a' } })
+
+      await http(app)
+        .get(`/users/@${user.username}`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toMatchObject({ postCount: 0, reactionCount: 0 })
+        })
+
+      return http(app)
+        .get('/posts/analytics/views')
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.total).toBe(0)
+        })
+    })
+  })
+
+  describe('TrashService.purge', () => {
+    it('should only purge rows deleted before the retention period', async () => {
+      const old = await db.post.create({
+        data: { ...getFakerPost(), deletedAt: longAgo() },
+      })
+      const recent = await db.post.create({
+        data: { ...getFakerPost(), deletedAt: new Date() },
+      })
+      const { user } = await createUser(app)
+      await db.user.update({
+        where: { id: user.id },
+        data: { deletedAt: longAgo() },
+      })
+
+      await app.get(TrashService).purge()
+
+      expect(await db.post.findUnique({ where: { id: old.id } })).toBeNull()
+      expect(
+        await db.post.findUnique({ where: { id: recent.id } })
+      ).not.toBeNull()
+      expect(await db.user.findUnique({ where: { id: user.id } })).toBeNull()
+    })
+
+    it('should delete the reactions and views of purged content', async () => {
+      const { user } = await createUser(app)
+      const post = await db.post.create({
+        data: { ...getFakerPost(), deletedAt: longAgo() },
+      })
+      const kept = await db.post.create({ data: getFakerPost() })
+      const comment = await db.comment.create({
+        data: {
+          content: 'gone',
+          postId: kept.id,
+          authorId: user.id,
+          deletedAt: longAgo(),
+        },
+      })
+      await db.reaction.createMany({
+        data: [
+          { postId: post.id, userId: user.id },
+          { commentId: comment.id, userId: user.id },
+        ],
+      })
+      await db.view.createMany({
+        data: [
+          { postId: post.id, visitor: 'a' },
+          { commentId: comment.id, visitor: 'a' },
+        ],
+      })
+
+      await app.get(TrashService).purge()
+
+      expect(
+        await db.reaction.count({ where: { postId: null, commentId: null } })
+      ).toBe(0)
+      expect(
+        await db.view.count({ where: { postId: null, commentId: null } })
+      ).toBe(0)
+    })
+
+    it('should delete the export archives of purged users', async () => {
+      const { user } = await createUser(app)
+      const dataExports = app.get(DataExportService)
+      const dataExport = await dataExports.build(
+        await dataExports.request(user.id)
+      )
+      const file = await dataExports.getFile(dataExport.id, user.id)
+      await db.user.update({
+        where: { id: user.id },
+        data: { deletedAt: longAgo() },
+      })
+
+      await app.get(TrashService).purge()
+
+      expect(
+        await db.dataExport.findUnique({ where: { id: dataExport.id } })
+      ).toBeNull()
+      expect(existsSync(file)).toBe(false)
+    })
+
+    it("should keep the replies to a purged user's comments", async () => {
+      const { user } = await createUser(app)
+      const { user: other } = await createUser(app)
+      const post = await db.post.create({ data: getFakerPost() })
+      const leaf = await db.comment.create({
+        data: { content: 'leaf', postId: post.id, authorId: user.id },
+      })
+      const replied = await db.comment.create({
+        data: { content: 'replied', postId: post.id, authorId: user.id },
+      })
+      const reply = await db.comment.create({
+        data: {
+          content: 'reply',
+          postId: post.id,
+          authorId: other.id,
+          parentId: replied.id,
+        },
+      })
+      await db.user.update({
+        where: { id: user.id },
+        data: { deletedAt: longAgo() },
+      })
+
+      await app.get(TrashService).purge()
+
+      expect(await db.comment.findUnique({ where: { id: leaf.id } })).toBeNull()
+      expect(
+        await db.comment.findUnique({ where: { id: replied.id } })
+      ).toMatchObject({ authorId: deletedUser.id, content: '[deleted]' })
+      expect(
+        await db.comment.findUnique({ where: { id: reply.id } })
+      ).toMatchObject({ parentId: replied.id })
+    })
+
+    it('should purge deleted comment threads from the leaves up', async () => {
+      const { user } = await createUser(app)
+      const post = await db.post.create({ data: getFakerPost() })
+      const root = await db.comment.create({
+        data: {
+          content: 'root',
+          postId: post.id,
+          authorId: user.id,
+          deletedAt: longAgo(),
+        },
+      })
+      const reply = await db.comment.create({
+        data: {
+          content: 'reply',
+          postId: post.id,
+          authorId: user.id,
+          parentId: root.id,
+          deletedAt: longAgo(),
+        },
+      })
+
+      await app.get(TrashService).purge()
+
+      expect(
+        await db.comment.findMany({
+          where: { id: { in: [root.id, reply.id] } },
+        })
+      ).toEqual([])
+    })
+  })
+})
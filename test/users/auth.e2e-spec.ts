@@ -4,6 +4,13 @@ import * as faker from 'faker'
 import { createUser, resetsDatabaseAfterAll, setupNestApp } from 'test/helpers'
 import { DatabaseService } from '~/services/database.service'
 import { HashService } from '~/services/security/hash.service'
+import { AuthService } from '~/services/users/auth.service'
+import { authTokenKey, AuthTokenPayload } from '~/types/user/auth'
+import { JwtService } from '@nestjs/jwt'
+import { MailService } from '~/services/mail/mail.service'
+import { TotpService } from '~/services/security/totp.service'
+import { Scope } from '~/enums/Scope'
+import { deletedUser } from '~/types/user/user'
 
 const getFakerName = () => ({
   fullName: faker.name.findName(),
@@ -30,6 +37,15 @@ describe('AuthController (e2e)', () => {
   describe('@GET /auth/me', () => {
     const uri = '/auth/me'
 
+    it('should return 401 if a refresh token is sent as bearer token', async () => {
+      const { tokens } = await createUser(app)
+
+      return request(app.getHttpServer())
+        .get(uri)
+        .auth(tokens.refreshToken, { type: 'bearer' })
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+
     it('should return 401 if not logged in', () => {
       return request(app.getHttpServer())
         .get(uri)
@@ -102,14 +118,14 @@ describe('AuthController (e2e)', () => {
         })
     })
 
-    it('should return 404 if user does not exist', async () => {
+    it('should return 400 if user does not exist', async () => {
       const email = faker.internet.email()
       return request(app.getHttpServer())
         .post(uri)
         .send({ email, password: 'password' })
-        .expect(HttpStatus.NOT_FOUND)
+        .expect(HttpStatus.BAD_REQUEST)
         .then(({ body }) => {
-          expect(body.message).toBe(`User cannot be found for email: ${email}`)
+          expect(body.message).toBe('Invalid credentials')
         })
     })
 
@@ -134,6 +150,74 @@ describe('AuthController (e2e)', () => {
         })
     })
 
+    it('should lock the account out after repeated failures', async () => {
+      const { user, password } = await createUser(app)
+      const login = (password: string) =>
+        request(app.getHttpServer())
+          .post(uri)
+          .send({ email: user.email, password })
+
+      for (let i = 0; i < 5; i++) {
+        await login('notpassword').expect(HttpStatus.BAD_REQUEST)
+      }
+      await login('notpassword').expect(HttpStatus.BAD_REQUEST)
+
+      return login(password)
+        .expect(HttpStatus.TOO_MANY_REQUESTS)
+        .then(({ body }) => {
+          expect(body.message).toMatch(
+            /^Too many failed logins, try again in \d+ seconds\.$/
+          )
+        })
+    })
+
+    it('should count concurrent failures one by one', async () => {
+      const email = faker.internet.email()
+
+      await Promise.all(
+        Array.from({ length: 4 }, () =>
+          request(app.getHttpServer())
+            .post(uri)
+            .send({ email, password: 'password' })
+            .expect(HttpStatus.BAD_REQUEST)
+        )
+      )
+
+      const throttle = await db.loginThrottle.findUnique({
+        where: { key: `email:${email.toLowerCase()}` },
+      })
+      expect(throttle!.attempts).toBe(4)
+    })
+
+    it('should lock unknown emails out the same way', async () => {
+      const email = faker.internet.email()
+      const login = () =>
+        request(app.getHttpServer())
+          .post(uri)
+          .send({ email, password: 'password' })
+
+      for (let i = 0; i < 6; i++) {
+        await login().expect(HttpStatus.BAD_REQUEST)
+      }
+
+      return login().expect(HttpStatus.TOO_MANY_REQUESTS)
+    })
+
+    it('should forget failures after logging in', async () => {
+      const { user, password } = await createUser(app)
+      const login = (password: string) =>
+        request(app.getHttpServer())
+          .post(uri)
+          .send({ email: user.email, password })
+
+      for (let i = 0; i < 5; i++) {
+        await login('notpassword').expect(HttpStatus.BAD_REQUEST)
+      }
+      await login(password).expect(HttpStatus.CREATED)
+
+      return login('notpassword').expect(HttpStatus.BAD_REQUEST)
+    })
+
     it('should return FORBIDDEN if not guest', async () => {
       const { user, tokens } = await createUser(app)
 
@@ -165,6 +249,23 @@ describe('AuthController (e2e)', () => {
           expect(body).toHaveProperty('refreshToken')
         })
     })
+
+    it('should record the device of the session', async () => {
+      const { user, password } = await createUser(app)
+
+      await request(app.getHttpServer())
+        .post(uri)
+        .set('User-Agent', 'e2e-device')
+        .send({ email: user.email, password })
+        .expect(HttpStatus.CREATED)
+
+      const session = await db.session.findFirst({
+        where: { userId: user.id, userAgent: 'e2e-device' },
+      })
+
+      expect(session).not.toBeNull()
+      expect(session?.ip).toBeTruthy()
+    })
   })
 
   describe('@POST /auth/register', () => {
@@ -240,6 +341,22 @@ describe('AuthController (e2e)', () => {
         })
     })
 
+    it('should register even if the verification mail fails', async () => {
+      const send = jest
+        .spyOn(app.get(MailService), 'send')
+        .mockRejectedValue(new Error('SMTP is down'))
+
+      await request(app.getHttpServer())
+        .post(uri)
+        .send(getFakerUser())
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          expect(body).toHaveProperty('accessToken')
+          expect(body).toHaveProperty('refreshToken')
+        })
+      send.mockRestore()
+    })
+
     it('should return conflict if email already exists', async () => {
       const email = faker.internet.email()
 
@@ -284,6 +401,20 @@ describe('AuthController (e2e)', () => {
         })
     })
 
+    it('should reserve the username and email of the deleted user placeholder', async () => {
+      await db.user.deleteMany({ where: { id: deletedUser.id } })
+
+      await request(app.getHttpServer())
+        .post(uri)
+        .send({ ...getFakerUser(), username: deletedUser.username })
+        .expect(HttpStatus.CONFLICT)
+
+      return request(app.getHttpServer())
+        .post(uri)
+        .send({ ...getFakerUser(), email: deletedUser.email.toUpperCase() })
+        .expect(HttpStatus.CONFLICT)
+    })
+
     it('should return created if user register successfully', async () => {
       const email = faker.internet.email()
       const password = 'password'
@@ -321,49 +452,728 @@ describe('AuthController (e2e)', () => {
   describe('@POST /auth/refresh', () => {
     const uri = '/auth/refresh'
 
-    it('should return 401 if not logged in', function () {
+    it('should return 400 for validation errors', async function () {
       return request(app.getHttpServer())
         .post(uri)
+        .expect(HttpStatus.BAD_REQUEST)
+        .then(({ body }) => {
+          expect(body.message).toStrictEqual([
+            'refreshToken must be a string',
+            'refreshToken should not be empty',
+          ])
+        })
+    })
+
+    it('should return 401 if refresh token is invalid', async function () {
+      return request(app.getHttpServer())
+        .post(uri)
+        .send({ refreshToken: faker.datatype.string(20) })
         .expect(HttpStatus.UNAUTHORIZED)
     })
 
-    it('should return 400 for validation errors', async function () {
+    it('should return 401 if an access token is sent as refresh token', async function () {
+      const { tokens } = await createUser(app)
+
+      return request(app.getHttpServer())
+        .post(uri)
+        .send({ refreshToken: tokens.accessToken })
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it('should return new tokens without an access token', async function () {
+      const { tokens } = await createUser(app)
+
+      return request(app.getHttpServer())
+        .post(uri)
+        .send({ refreshToken: tokens.refreshToken, remembers: true })
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          expect(body).toHaveProperty('accessToken')
+          expect(body).toHaveProperty('refreshToken')
+        })
+    })
+
+    it('should honor remembers when rotating', async function () {
+      const { user, tokens } = await createUser(app)
+
+      await request(app.getHttpServer())
+        .post(uri)
+        .send({ refreshToken: tokens.refreshToken, remembers: true })
+        .expect(HttpStatus.CREATED)
+
+      const latest = await db.refreshToken.findFirst({
+        where: { userId: user.id, usedAt: null },
+      })
+
+      expect(latest?.remembers).toBe(true)
+    })
+
+    it('should end the session if a refresh token is reused', async function () {
+      const { tokens } = await createUser(app)
+      const refresh = (refreshToken: string) =>
+        request(app.getHttpServer()).post(uri).send({ refreshToken })
+
+      const rotated = await refresh(tokens.refreshToken)
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => body.refreshToken)
+
+      await refresh(tokens.refreshToken).expect(HttpStatus.UNAUTHORIZED)
+
+      return refresh(rotated).expect(HttpStatus.UNAUTHORIZED)
+    })
+  })
+
+  describe('@POST /auth/logout', () => {
+    const uri = '/auth/logout'
+
+    it('should revoke the refresh token', async function () {
       const { tokens } = await createUser(app)
 
+      await request(app.getHttpServer())
+        .post(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ refreshToken: tokens.refreshToken })
+        .expect(HttpStatus.NO_CONTENT)
+
+      return request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refreshToken: tokens.refreshToken })
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it('should return 401 if not logged in', function () {
       return request(app.getHttpServer())
         .post(uri)
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+  })
+
+  describe('@POST /auth/logout-all', () => {
+    const uri = '/auth/logout-all'
+
+    it('should revoke all issued tokens', async function () {
+      const { user, tokens } = await createUser(app)
+      // Revocation has a precision of seconds, like `iat`
+      await new Promise((resolve) => setTimeout(resolve, 1000))
+
+      await request(app.getHttpServer())
+        .post(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NO_CONTENT)
+
+      await request(app.getHttpServer())
+        .get('/auth/me')
         .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.UNAUTHORIZED)
+
+      expect(
+        await db.refreshToken.count({
+          where: { userId: user.id, revokedAt: null },
+        })
+      ).toBe(0)
+    })
+  })
+
+  describe('@POST /auth/password/forgot', () => {
+    const uri = '/auth/password/forgot'
+
+    it('should return 400 for validation errors', () => {
+      return request(app.getHttpServer())
+        .post(uri)
         .expect(HttpStatus.BAD_REQUEST)
         .then(({ body }) => {
           expect(body.message).toStrictEqual([
-            'refreshToken must be a string',
-            'refreshToken should not be empty',
+            'email must be an email',
+            'email should not be empty',
           ])
         })
     })
 
-    it('should return 401 if refresh token is invalid', async function () {
-      const { tokens } = await createUser(app)
+    it('should mail a reset link to the user', async () => {
+      const { user } = await createUser(app)
+      const send = jest.spyOn(app.get(MailService), 'send')
+
+      await request(app.getHttpServer())
+        .post(uri)
+        .send({ email: user.email })
+        .expect(HttpStatus.NO_CONTENT)
+
+      expect(send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: user.email,
+          subject: 'Reset your password',
+        })
+      )
+      send.mockRestore()
+    })
+
+    it('should not tell whether the email belongs to a user', async () => {
+      const send = jest.spyOn(app.get(MailService), 'send')
+
+      await request(app.getHttpServer())
+        .post(uri)
+        .send({ email: faker.internet.email() })
+        .expect(HttpStatus.NO_CONTENT)
 
+      expect(send).not.toHaveBeenCalled()
+      send.mockRestore()
+    })
+  })
+
+  describe('@POST /auth/password/reset', () => {
+    const uri = '/auth/password/reset'
+    const requestToken = async (email: string) => {
+      const send = jest.spyOn(app.get(MailService), 'send')
+
+      await request(app.getHttpServer())
+        .post('/auth/password/forgot')
+        .send({ email })
+        .expect(HttpStatus.NO_CONTENT)
+
+      const [[{ text }]] = send.mock.calls
+      send.mockRestore()
+
+      return /token=(\w+)/.exec(text)![1]
+    }
+
+    it('should return 400 for validation errors', () => {
       return request(app.getHttpServer())
         .post(uri)
+        .send({ password: '123' })
+        .expect(HttpStatus.BAD_REQUEST)
+        .then(({ body }) => {
+          expect(body.message).toStrictEqual([
+            'token must be a string',
+            'token should not be empty',
+            'password must be longer than or equal to 6 characters',
+          ])
+        })
+    })
+
+    it('should reset the password once and log out all sessions', async () => {
+      const { user, tokens } = await createUser(app)
+      const token = await requestToken(user.email)
+      // Revocation has a precision of seconds, like `iat`
+      await new Promise((resolve) => setTimeout(resolve, 1000))
+
+      await request(app.getHttpServer())
+        .post(uri)
+        .send({ token, password: 'new-password' })
+        .expect(HttpStatus.NO_CONTENT)
+
+      await request(app.getHttpServer())
+        .post(uri)
+        .send({ token, password: 'another-password' })
+        .expect(HttpStatus.BAD_REQUEST)
+        .then(({ body }) => {
+          expect(body.message).toBe(
+            'The password reset link is invalid or has expired.'
+          )
+        })
+
+      await request(app.getHttpServer())
+        .get('/auth/me')
         .auth(tokens.accessToken, { type: 'bearer' })
-        .send({ refreshToken: faker.datatype.string(20) })
         .expect(HttpStatus.UNAUTHORIZED)
+
+      return request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: user.email, password: 'new-password' })
+        .expect(HttpStatus.CREATED)
+    })
+
+    it('should return 400 if the token has expired', async () => {
+      const { user } = await createUser(app)
+      const token = await requestToken(user.email)
+      await db.passwordReset.updateMany({
+        where: { userId: user.id },
+        data: { expiresAt: new Date() },
+      })
+
+      return request(app.getHttpServer())
+        .post(uri)
+        .send({ token, password: 'new-password' })
+        .expect(HttpStatus.BAD_REQUEST)
     })
+  })
+
+  describe('@POST /auth/email/verify', () => {
+    const uri = '/auth/email/verify'
+    const register = async () => {
+      const send = jest.spyOn(app.get(MailService), 'send')
+      const data = getFakerUser()
 
-    it('should return new tokens correctly', async function () {
+      const { body: tokens } = await request(app.getHttpServer())
+        .post('/auth/register')
+        .send(data)
+        .expect(HttpStatus.CREATED)
+
+      const [[{ to, subject, text }]] = send.mock.calls
+      send.mockRestore()
+      expect(to).toBe(data.email)
+      expect(subject).toBe('Verify your email')
+
+      return { ...data, tokens, token: /token=(\w+)/.exec(text)![1] }
+    }
+
+    it('should verify the email mailed on register only once', async () => {
+      const { email, token } = await register()
+
+      expect(
+        (await db.user.findUnique({ where: { email } }))?.emailVerifiedAt
+      ).toBeNull()
+
+      await request(app.getHttpServer())
+        .post(uri)
+        .send({ token })
+        .expect(HttpStatus.NO_CONTENT)
+
+      expect(
+        (await db.user.findUnique({ where: { email } }))?.emailVerifiedAt
+      ).not.toBeNull()
+
+      return request(app.getHttpServer())
+        .post(uri)
+        .send({ token })
+        .expect(HttpStatus.BAD_REQUEST)
+        .then(({ body }) => {
+          expect(body.message).toBe(
+            'The email verification link is invalid or has expired.'
+          )
+        })
+    })
+
+    it('should return 400 if the email has changed since', async () => {
+      const { email, token } = await register()
+      await db.user.update({
+        where: { email },
+        data: { email: faker.internet.email() },
+      })
+
+      return request(app.getHttpServer())
+        .post(uri)
+        .send({ token })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+  })
+
+  describe('@POST /auth/email/resend', () => {
+    const uri = '/auth/email/resend'
+
+    it('should mail a new link if the email is not verified', async () => {
+      const { user, tokens } = await createUser(app)
+      await db.user.update({
+        where: { id: user.id },
+        data: { emailVerifiedAt: null },
+      })
+      const send = jest.spyOn(app.get(MailService), 'send')
+
+      await request(app.getHttpServer())
+        .post(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NO_CONTENT)
+
+      expect(send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: user.email })
+      )
+      send.mockRestore()
+    })
+
+    it('should return 400 if the email is already verified', async () => {
       const { tokens } = await createUser(app)
 
       return request(app.getHttpServer())
         .post(uri)
         .auth(tokens.accessToken, { type: 'bearer' })
-        .send({ refreshToken: tokens.refreshToken, remembers: true })
+        .expect(HttpStatus.BAD_REQUEST)
+        .then(({ body }) => {
+          expect(body.message).toBe('Your email is already verified.')
+        })
+    })
+  })
+
+  describe('two-factor authentication', () => {
+    // The code of a later step, as the one confirming 2FA is used up.
+    const nextCode = (secret: string) =>
+      app.get(TotpService).generate(secret, Date.now() + 30 * 1000)
+    const enable = async () => {
+      const created = await createUser(app)
+      const auth = (req: request.Test) =>
+        req.auth(created.tokens.accessToken, { type: 'bearer' })
+
+      const { body: enrollment } = await auth(
+        request(app.getHttpServer()).post('/auth/2fa/enroll')
+      ).expect(HttpStatus.CREATED)
+      expect(enrollment.uri).toContain(`secret=${enrollment.secret}`)
+
+      const { body } = await auth(
+        request(app.getHttpServer()).post('/auth/2fa/confirm')
+      )
+        .send({ code: app.get(TotpService).generate(enrollment.secret) })
+        .expect(HttpStatus.CREATED)
+      expect(body.recoveryCodes).toHaveLength(10)
+
+      return {
+        ...created,
+        auth,
+        secret: enrollment.secret as string,
+        recoveryCodes: body.recoveryCodes as string[],
+      }
+    }
+    const login = async (email: string, password: string) => {
+      const { body } = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email, password })
+        .expect(HttpStatus.CREATED)
+
+      return body
+    }
+
+    it('should not enable 2FA with an invalid code', async () => {
+      const { tokens } = await createUser(app)
+
+      await request(app.getHttpServer())
+        .post('/auth/2fa/enroll')
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.CREATED)
+
+      return request(app.getHttpServer())
+        .post('/auth/2fa/confirm')
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ code: '000000' })
+        .expect(HttpStatus.BAD_REQUEST)
+        .then(({ body }) => {
+          expect(body.message).toBe(
+            'The two-factor authentication code is invalid.'
+          )
+        })
+    })
+
+    it('should challenge login until a code is given', async () => {
+      const { user, password, secret } = await enable()
+      const challenge = await login(user.email, password)
+
+      expect(challenge).toMatchObject({ mfaRequired: true })
+      expect(challenge.accessToken).toBeUndefined()
+
+      await request(app.getHttpServer())
+        .get('/auth/me')
+        .auth(challenge.mfaToken, { type: 'bearer' })
+        .expect(HttpStatus.UNAUTHORIZED)
+
+      await request(app.getHttpServer())
+        .post('/auth/2fa/verify')
+        .send({ mfaToken: challenge.mfaToken, code: '000000' })
+        .expect(HttpStatus.BAD_REQUEST)
+
+      return request(app.getHttpServer())
+        .post('/auth/2fa/verify')
+        .send({
+          mfaToken: challenge.mfaToken,
+          code: nextCode(secret),
+        })
         .expect(HttpStatus.CREATED)
         .then(({ body }) => {
           expect(body).toHaveProperty('accessToken')
           expect(body).toHaveProperty('refreshToken')
         })
     })
+
+    it('should accept a recovery code only once', async () => {
+      const { user, password, recoveryCodes } = await enable()
+      const verify = async (status: HttpStatus) => {
+        const { mfaToken } = await login(user.email, password)
+
+        await request(app.getHttpServer())
+          .post('/auth/2fa/verify')
+          .send({ mfaToken, code: recoveryCodes[0] })
+          .expect(status)
+      }
+
+      await verify(HttpStatus.CREATED)
+      await verify(HttpStatus.BAD_REQUEST)
+    })
+
+    it('should not accept a code twice', async () => {
+      const { user, password, secret, auth } = await enable()
+      const code = nextCode(secret)
+      const verify = async (status: HttpStatus) => {
+        const { mfaToken } = await login(user.email, password)
+
+        await request(app.getHttpServer())
+          .post('/auth/2fa/verify')
+          .send({ mfaToken, code })
+          .expect(status)
+      }
+
+      await verify(HttpStatus.CREATED)
+      await verify(HttpStatus.BAD_REQUEST)
+
+      return auth(request(app.getHttpServer()).delete('/auth/2fa'))
+        .send({ code })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it('should return 401 if the MFA token is invalid', () => {
+      return request(app.getHttpServer())
+        .post('/auth/2fa/verify')
+        .send({ mfaToken: faker.datatype.string(20), code: '000000' })
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it('should disable 2FA with a code', async () => {
+      const { user, password, secret, auth } = await enable()
+
+      await auth(request(app.getHttpServer()).delete('/auth/2fa'))
+        .send({ code: nextCode(secret) })
+        .expect(HttpStatus.NO_CONTENT)
+
+      expect(await login(user.email, password)).toHaveProperty('accessToken')
+    })
+  })
+
+  describe('@GET /auth/sessions', () => {
+    const uri = '/auth/sessions'
+
+    it('should return 401 if not logged in', () => {
+      return request(app.getHttpServer())
+        .get(uri)
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it('should list active sessions marking the current one', async () => {
+      const { user, tokens } = await createUser(app)
+      const other = await app
+        .get(AuthService)
+        .generateToken({ [authTokenKey]: user.id })
+      await request(app.getHttpServer())
+        .post('/auth/logout')
+        .auth(other.accessToken, { type: 'bearer' })
+        .send({ refreshToken: other.refreshToken })
+        .expect(HttpStatus.NO_CONTENT)
+      await app.get(AuthService).generateToken({ [authTokenKey]: user.id })
+
+      return request(app.getHttpServer())
+        .get(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toHaveLength(2)
+          expect(
+            body.items.filter((session: any) => session.current)
+          ).toHaveLength(1)
+          expect(body.items[0].revokedAt).toBeUndefined()
+        })
+    })
+
+    it('should page the sessions by cursor', async () => {
+      const { user, tokens } = await createUser(app)
+      await app.get(AuthService).generateToken({ [authTokenKey]: user.id })
+
+      const { body: first } = await request(app.getHttpServer())
+        .get(uri)
+        .query({ limit: 1 })
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+
+      expect(first.items).toHaveLength(1)
+      expect(first.hasMore).toBe(true)
+
+      return request(app.getHttpServer())
+        .get(uri)
+        .query({ limit: 1, cursor: first.nextCursor })
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toHaveLength(1)
+          expect(body.items[0].id).not.toBe(first.items[0].id)
+          expect(body.hasMore).toBe(false)
+        })
+    })
+  })
+
+  describe('@DELETE /auth/sessions/:id', () => {
+    const uri = (id: string) => `/auth/sessions/${id}`
+
+    it('should end a session of another device', async () => {
+      const { user, tokens } = await createUser(app)
+      const lost = await app
+        .get(AuthService)
+        .generateToken({ [authTokenKey]: user.id })
+      const { sid } = app
+        .get(JwtService)
+        .decode(lost.accessToken) as AuthTokenPayload
+
+      await request(app.getHttpServer())
+        .delete(uri(sid!))
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NO_CONTENT)
+
+      await request(app.getHttpServer())
+        .get('/auth/me')
+        .auth(lost.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.UNAUTHORIZED)
+
+      await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refreshToken: lost.refreshToken })
+        .expect(HttpStatus.UNAUTHORIZED)
+
+      return request(app.getHttpServer())
+        .get('/auth/me')
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+    })
+
+    it("should return 404 for another user's session and leave it alone", async () => {
+      const { tokens } = await createUser(app)
+      const { user: other, tokens: otherTokens } = await createUser(app)
+      const session = await db.session.findFirst({
+        where: { userId: other.id },
+      })
+
+      await request(app.getHttpServer())
+        .delete(uri(session!.id))
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NOT_FOUND)
+
+      return request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refreshToken: otherTokens.refreshToken })
+        .expect(HttpStatus.CREATED)
+    })
+  })
+
+  describe('personal access tokens', () => {
+    const uri = '/auth/tokens'
+
+    const createToken = async (accessToken: string, data: any) => {
+      const { body } = await request(app.getHttpServer())
+        .post(uri)
+        .auth(accessToken, { type: 'bearer' })
+        .send(data)
+        .expect(HttpStatus.CREATED)
+
+      return body
+    }
+
+    it('should create, list and revoke tokens without exposing them', async () => {
+      const { tokens } = await createUser(app)
+      const created = await createToken(tokens.accessToken, {
+        name: 'CI',
+        scopes: [Scope.PostsWrite],
+      })
+
+      expect(created.token).toMatch(/^zhy_/)
+      expect(created.scopes).toEqual([Scope.PostsWrite])
+      expect(created.tokenHash).toBeUndefined()
+
+      await request(app.getHttpServer())
+        .get(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toHaveLength(1)
+          expect(body.items[0]).toMatchObject({ id: created.id, name: 'CI' })
+          expect(body.items[0].token).toBeUndefined()
+        })
+
+      await request(app.getHttpServer())
+        .delete(`${uri}/${created.id}`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NO_CONTENT)
+
+      return request(app.getHttpServer())
+        .post('/posts')
+        .auth(created.token, { type: 'bearer' })
+        .send({ title: 'title', content: 'content' })
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it('should return 400 if the expiry is in the past', async () => {
+      const { tokens } = await createUser(app)
+
+      return request(app.getHttpServer())
+        .post(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({
+          name: 'CI',
+          scopes: [Scope.PostsWrite],
+          expiresAt: new Date(Date.now() - 1000),
+        })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it('should authenticate routes within its scopes only', async () => {
+      const { user, tokens } = await createUser(app)
+      const { token } = await createToken(tokens.accessToken, {
+        name: 'CI',
+        scopes: [Scope.PostsWrite],
+      })
+
+      await request(app.getHttpServer())
+        .post('/posts')
+        .auth(token, { type: 'bearer' })
+        .send({ title: 'title', content: 'content' })
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          expect(body.authorId).toBe(user.id)
+        })
+
+      await request(app.getHttpServer())
+        .get('/posts/drafts')
+        .auth(token, { type: 'bearer' })
+        .expect(HttpStatus.FORBIDDEN)
+
+      const { lastUsedAt } = (await db.personalAccessToken.findFirst({
+        where: { userId: user.id },
+      }))!
+      expect(lastUsedAt).not.toBeNull()
+    })
+
+    it('should return 403 on the routes without scopes', async () => {
+      const { tokens } = await createUser(app)
+      const { token } = await createToken(tokens.accessToken, {
+        name: 'CI',
+        scopes: [Scope.PostsRead],
+      })
+
+      return request(app.getHttpServer())
+        .get(uri)
+        .auth(token, { type: 'bearer' })
+        .expect(HttpStatus.FORBIDDEN)
+    })
+
+    it('should return 401 if the token has expired', async () => {
+      const { user, tokens } = await createUser(app)
+      const { token } = await createToken(tokens.accessToken, {
+        name: 'CI',
+        scopes: [Scope.PostsRead],
+        expiresAt: new Date(Date.now() + 60000),
+      })
+      await db.personalAccessToken.updateMany({
+        where: { userId: user.id },
+        data: { expiresAt: new Date(Date.now() - 1000) },
+      })
+
+      return request(app.getHttpServer())
+        .get('/posts/drafts')
+        .auth(token, { type: 'bearer' })
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it("should return 404 when revoking another user's token", async () => {
+      const { tokens } = await createUser(app)
+      const { tokens: otherTokens } = await createUser(app)
+      const { id } = await createToken(otherTokens.accessToken, {
+        name: 'CI',
+        scopes: [Scope.PostsRead],
+      })
+
+      return request(app.getHttpServer())
+        .delete(`${uri}/${id}`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NOT_FOUND)
+    })
   })
 })
@@ -0,0 +1,189 @@
+import { HttpStatus, INestApplication } from '@nestjs/common'
+import { existsSync, promises as fs } from 'fs'
+import { ConfigService } from '@nestjs/config'
+import { DatabaseService } from '~/services/database.service'
+import { ConfigKey, DataExportConfig } from '~/config/config.interface'
+import { DataExportService } from '~/services/users/data-export.service'
+import {
+  createUser,
+  http,
+  resetsDatabaseAfterAll,
+  setupNestApp,
+} from 'test/helpers'
+
+describe('Data export (e2e)', () => {
+  let app: INestApplication
+  let db: DatabaseService
+
+  const requestExport = async (accessToken: string) => {
+    const { body } = await http(app)
+      .post('/users/me/export')
+      .auth(accessToken, { type: 'bearer' })
+      .expect(HttpStatus.ACCEPTED)
+
+    return body
+  }
+
+  beforeAll(async () => {
+    app = await setupNestApp()
+    db = app.get(DatabaseService)
+  })
+
+  resetsDatabaseAfterAll(() => app)
+
+  describe('@POST /users/me/export', () => {
+    it('should return the pending export instead of a new one', async () => {
+      const { user, tokens } = await createUser(app)
+      const first = await requestExport(tokens.accessToken)
+
+      expect(first).toMatchObject({
+        userId: user.id,
+        status: 'PENDING',
+        expiresAt: null,
+      })
+      expect(await requestExport(tokens.accessToken)).toMatchObject({
+        id: first.id,
+      })
+    })
+
+    it('should create a single export for concurrent requests', async () => {
+      const { user, tokens } = await createUser(app)
+      const exports = await Promise.all(
+        Array.from({ length: 3 }, () => requestExport(tokens.accessToken))
+      )
+
+      expect(new Set(exports.map(({ id }) => id)).size).toBe(1)
+      expect(await db.dataExport.count({ where: { userId: user.id } })).toBe(1)
+    })
+  })
+
+  describe('@GET /users/me/export/:id', () => {
+    const uri = (id: string) => `/users/me/export/${id}`
+
+    it('should return 409 until the archive is built', async () => {
+      const { tokens } = await createUser(app)
+      const { id } = await requestExport(tokens.accessToken)
+
+      return http(app)
+        .get(uri(id))
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.CONFLICT)
+        .then(({ body }) => {
+          expect(body.message).toBe('The data export is not ready yet.')
+        })
+    })
+
+    it('should download the archive once built', async () => {
+      const { user, tokens } = await createUser(app)
+      const post = await db.post.create({
+        data: { title: 'title', published: true, authorId: user.id },
+      })
+      await db.comment.create({
+        data: { content: 'comment', postId: post.id, authorId: user.id },
+      })
+      const { id } = await requestExport(tokens.accessToken)
+      const dataExport = await db.dataExport.findUnique({ where: { id } })
+
+      expect(await app.get(DataExportService).build(dataExport!)).toMatchObject(
+        { status: 'READY' }
+      )
+
+      return http(app)
+        .get(uri(id))
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.user).toMatchObject({ id: user.id, email: user.email })
+          expect(body.user.password).toBeUndefined()
+          expect(body.posts).toHaveLength(1)
+          expect(body.comments).toHaveLength(1)
+          expect(body).toHaveProperty('profile')
+          expect(body).toHaveProperty('reactions')
+          expect(body).toHaveProperty('follows')
+          expect(body).toHaveProperty('sessions')
+        })
+    })
+
+    it('should return 404 if the archive file is missing', async () => {
+      const { user, tokens } = await createUser(app)
+      const { id } = await requestExport(tokens.accessToken)
+      const dataExport = await db.dataExport.findUnique({ where: { id } })
+      await app.get(DataExportService).build(dataExport!)
+      await fs.rm(await app.get(DataExportService).getFile(id, user.id))
+
+      return http(app)
+        .get(uri(id))
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NOT_FOUND)
+        .then(({ body }) => {
+          expect(body.message).toBe(
+            `Data export cannot be found for id: ${id}.`
+          )
+        })
+    })
+
+    it('should return 404 for the exports of others or expired ones', async () => {
+      const { tokens } = await createUser(app)
+      const { tokens: otherTokens } = await createUser(app)
+      const { id } = await requestExport(tokens.accessToken)
+      const dataExport = await db.dataExport.findUnique({ where: { id } })
+      await app.get(DataExportService).build(dataExport!)
+
+      await http(app)
+        .get(uri(id))
+        .auth(otherTokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NOT_FOUND)
+
+      await db.dataExport.update({
+        where: { id },
+        data: { expiresAt: new Date(Date.now() - 1000) },
+      })
+
+      await http(app)
+        .get(uri(id))
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NOT_FOUND)
+
+      expect(await app.get(DataExportService).purgeExpired()).toBe(1)
+    })
+  })
+
+  describe('DataExportService.build', () => {
+    it('should leave no archive if the export is gone meanwhile', async () => {
+      const { tokens } = await createUser(app)
+      const { id } = await requestExport(tokens.accessToken)
+      const dataExport = await db.dataExport.findUnique({ where: { id } })
+      const dataExports = app.get(DataExportService)
+      await db.dataExport.delete({ where: { id } })
+
+      await expect(dataExports.build(dataExport!)).rejects.toBeDefined()
+      await expect(dataExports.fail(id)).resolves.toBeUndefined()
+
+      const { dir } = app
+        .get(ConfigService)
+        .get<DataExportConfig>(ConfigKey.DataExport)!
+      expect(
+        (await fs.readdir(dir)).filter((file) => file.startsWith(id))
+      ).toEqual([])
+    })
+  })
+
+  describe('@DELETE /users/me', () => {
+    it('should delete the archives with the account', async () => {
+      const { user, tokens, password } = await createUser(app)
+      const { id } = await requestExport(tokens.accessToken)
+      const dataExport = await db.dataExport.findUnique({ where: { id } })
+      await app.get(DataExportService).build(dataExport!)
+      const file = await app.get(DataExportService).getFile(id, user.id)
+
+      await http(app)
+        .delete('/users/me')
+        .send({ password })
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NO_CONTENT)
+
+      expect(await db.dataExport.findUnique({ where: { id } })).toBeNull()
+      expect(existsSync(file)).toBe(false)
+    })
+  })
+})
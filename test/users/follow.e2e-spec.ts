@@ -0,0 +1,155 @@
+import { HttpStatus, INestApplication } from '@nestjs/common'
+import { DatabaseService } from '~/services/database.service'
+import {
+  createUser,
+  http,
+  resetsDatabaseAfterAll,
+  setupNestApp,
+} from 'test/helpers'
+
+describe('UsersController follows (e2e)', () => {
+  let app: INestApplication
+  let db: DatabaseService
+
+  beforeAll(async () => {
+    app = await setupNestApp()
+    db = app.get(DatabaseService)
+  })
+
+  resetsDatabaseAfterAll(() => app)
+
+  describe('@POST /users/@:username/follow', () => {
+    it('should follow the user', async () => {
+      const { user: follower, tokens } = await createUser(app)
+      const { user } = await createUser(app)
+
+      await http(app)
+        .post(`/users/@${user.username}/follow`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          expect(body).toMatchObject({ isFollowing: true })
+        })
+
+      const following = await db.user
+        .findUnique({ where: { id: follower.id } })
+        .following()
+
+      expect(following).toMatchObject([{ id: user.id }])
+    })
+
+    it('should return 400 if user follows themselves', async () => {
+      const { user, tokens } = await createUser(app)
+
+      return http(app)
+        .post(`/users/@${user.username}/follow`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.BAD_REQUEST)
+        .then(({ body }) => {
+          expect(body.message).toBe("You can't follow yourself.")
+        })
+    })
+
+    it('should return unauthorized if not logged in', async () => {
+      const { user } = await createUser(app)
+
+      return http(app)
+        .post(`/users/@${user.username}/follow`)
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+  })
+
+  describe('@DELETE /users/@:username/follow', () => {
+    it('should unfollow the user', async () => {
+      const { user: follower, tokens } = await createUser(app)
+      const { user } = await createUser(app)
+      await db.user.update({
+        where: { id: follower.id },
+        data: { following: { connect: { id: user.id } } },
+      })
+
+      await http(app)
+        .delete(`/users/@${user.username}/follow`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toMatchObject({ isFollowing: false })
+        })
+
+      return http(app)
+        .get(`/users/@${user.username}`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.isFollowing).toBe(false)
+        })
+    })
+  })
+
+  describe('@GET /users/@:username/followers', () => {
+    it('should return paginated followers', async () => {
+      const { user, tokens } = await createUser(app)
+      const followers = []
+
+      for (const _ of Array(3).fill('')) {
+        const { user: follower } = await createUser(app)
+        await db.user.update({
+          where: { id: follower.id },
+          data: { following: { connect: { id: user.id } } },
+        })
+        followers.push(follower)
+      }
+
+      const ids = followers.map(({ id }) => id).sort()
+
+      const nextCursor = await http(app)
+        .get(`/users/@${user.username}/followers`)
+        .query({ limit: 2 })
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items.map(({ id }: { id: string }) => id)).toEqual(
+            ids.slice(0, 2)
+          )
+          expect(body.items[0].password).toBeUndefined()
+          expect(body.nextCursor).toBe(ids[1])
+          expect(body.hasMore).toBe(true)
+
+          return body.nextCursor
+        })
+
+      return http(app)
+        .get(`/users/@${user.username}/followers`)
+        .query({ limit: 2, cursor: nextCursor })
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toMatchObject([{ id: ids[2] }])
+          expect(body.nextCursor).toBeNull()
+          expect(body.hasMore).toBe(false)
+        })
+    })
+  })
+
+  describe('@GET /users/@:username/following', () => {
+    it('should return followed users', async () => {
+      const { user, tokens } = await createUser(app)
+      const { user: followed } = await createUser(app)
+      await db.user.update({
+        where: { id: user.id },
+        data: { following: { connect: { id: followed.id } } },
+      })
+
+      return http(app)
+        .get(`/users/@${user.username}/following`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toMatchObject({
+            items: [{ id: followed.id, username: followed.username }],
+            nextCursor: null,
+          })
+        })
+    })
+  })
+})
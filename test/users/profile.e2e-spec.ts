@@ -1,6 +1,7 @@
 import { HttpStatus, INestApplication } from '@nestjs/common'
 import { DatabaseService } from '~/services/database.service'
 import {
+  createModeratorUser,
   createUser,
   http,
   resetsDatabaseAfterAll,
@@ -8,6 +9,8 @@ import {
 } from 'test/helpers'
 import * as faker from 'faker'
 import { isNil } from '@nestjs/common/utils/shared.utils'
+import { StatusClearInterval } from '@prisma/client'
+import { ProfileStatusService } from '~/services/users/status.service'
 
 describe('ProfileController (e2e)', () => {
   let app: INestApplication
@@ -34,7 +37,7 @@ describe('ProfileController (e2e)', () => {
         status: {
           content: faker.lorem.words(5),
           emoji: faker.lorem.word(5),
-          clearInterval: faker.datatype.number(60),
+          clearInterval: StatusClearInterval.NEVER,
         },
       }
 
@@ -79,7 +82,7 @@ describe('ProfileController (e2e)', () => {
       const status = {
         content: faker.lorem.words(5),
         emoji: faker.lorem.word(5),
-        clearInterval: faker.datatype.number(60),
+        clearInterval: StatusClearInterval.FOUR_HOURS,
       }
 
       await http(app)
@@ -127,7 +130,7 @@ describe('ProfileController (e2e)', () => {
         status: {
           content: faker.lorem.words(5),
           emoji: faker.lorem.word(5),
-          clearInterval: faker.datatype.number(60),
+          clearInterval: StatusClearInterval.NEVER,
         },
       }
 
@@ -188,13 +191,239 @@ describe('ProfileController (e2e)', () => {
         .expect(HttpStatus.BAD_REQUEST)
         .then(({ body }) => {
           expect(body.message).toMatchObject([
-            'status.clearInterval must be a number',
+            'status.clearInterval must be a valid enum value',
           ])
         })
     })
 
+    it('should set expiresAt by the clear interval', async () => {
+      const { tokens } = await createUser(app)
+      const now = Date.now()
+
+      return http(app)
+        .put(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({
+          status: {
+            content: faker.lorem.words(5),
+            clearInterval: StatusClearInterval.THIRTY_MINUTES,
+          },
+        })
+        .expect(HttpStatus.CREATED)
+        .then(({ body }) => {
+          const expiresAt = new Date(body.status.expiresAt).getTime()
+
+          expect(expiresAt).toBeGreaterThan(now + 29 * 60 * 1000)
+          expect(expiresAt).toBeLessThanOrEqual(now + 31 * 60 * 1000)
+        })
+    })
+
     it('should return unauthorized if not logged in', async () => {
       return http(app).put(uri).send({}).expect(HttpStatus.UNAUTHORIZED)
     })
   })
+
+  describe('@GET /profile', () => {
+    const uri = '/profile'
+
+    it('should return own profile and status', async () => {
+      const { user, tokens } = await createUser(app)
+      const profile = await db.profile.create({
+        data: {
+          bio: faker.lorem.words(10),
+          userId: user.id,
+          status: { create: { content: faker.lorem.words(5) } },
+        },
+      })
+
+      return http(app)
+        .get(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.profile).toMatchObject({
+            id: profile.id,
+            bio: profile.bio,
+            userId: user.id,
+          })
+          expect(body.profile.createdAt).toBeDefined()
+          expect(body.status).toMatchObject({ profileId: profile.id })
+        })
+    })
+
+    it('should return nulls if user has no profile yet', async () => {
+      const { tokens } = await createUser(app)
+
+      return http(app)
+        .get(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toEqual({ profile: null, status: null })
+        })
+    })
+
+    it('should return unauthorized if not logged in', async () => {
+      return http(app).get(uri).expect(HttpStatus.UNAUTHORIZED)
+    })
+  })
+
+  describe('@GET /users/@:username/profile', () => {
+    it('should return public profile and status', async () => {
+      const { tokens } = await createUser(app)
+      const { user } = await createUser(app)
+      const content = faker.lorem.words(5)
+      await db.profile.create({
+        data: {
+          city: faker.address.city(),
+          userId: user.id,
+          status: { create: { content } },
+        },
+      })
+
+      return http(app)
+        .get(`/users/@${user.username}/profile`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.profile.userId).toBeUndefined()
+          expect(body.profile.createdAt).toBeUndefined()
+          expect(body.status).toMatchObject({ content })
+          expect(body.status.profileId).toBeUndefined()
+        })
+    })
+
+    it('should return 404 if user does not exist', async () => {
+      const { tokens } = await createUser(app)
+
+      return http(app)
+        .get('/users/@missing-user/profile')
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NOT_FOUND)
+    })
+  })
+
+  describe('@PUT /profile/:id', () => {
+    const uri = '/profile/'
+
+    it('should update own profile by id', async () => {
+      const { user, tokens } = await createUser(app)
+      const profile = await db.profile.create({ data: { userId: user.id } })
+
+      return http(app)
+        .put(uri + profile.id)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ bio: 'my bio' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toMatchObject({ id: profile.id, bio: 'my bio' })
+        })
+    })
+
+    it("should let moderators update other users' profiles", async () => {
+      const { user } = await createUser(app)
+      const { tokens } = await createModeratorUser(app)
+      const profile = await db.profile.create({
+        data: { userId: user.id, bio: 'offensive' },
+      })
+
+      return http(app)
+        .put(uri + profile.id)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ bio: '' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toMatchObject({ id: profile.id, bio: '' })
+        })
+    })
+
+    it("should return 403 if user wants to update other users' profiles", async () => {
+      const { user } = await createUser(app)
+      const { tokens } = await createUser(app)
+      const profile = await db.profile.create({ data: { userId: user.id } })
+
+      return http(app)
+        .put(uri + profile.id)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ bio: 'not mine' })
+        .expect(HttpStatus.FORBIDDEN)
+        .then(({ body }) => {
+          expect(body.message).toBe(
+            "You don't have the permission to update this Profile."
+          )
+        })
+    })
+
+    it('should return 404 if profile cannot be found', async () => {
+      const { tokens } = await createUser(app)
+
+      return http(app)
+        .put(uri + faker.datatype.uuid())
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ bio: 'missing' })
+        .expect(HttpStatus.NOT_FOUND)
+    })
+  })
+
+  describe('@DELETE /profile/status', () => {
+    const uri = '/profile/status'
+
+    it('should clear own status', async () => {
+      const { user, tokens } = await createUser(app)
+      const profile = await db.profile.create({
+        data: {
+          userId: user.id,
+          status: { create: { content: faker.lorem.words(5) } },
+        },
+      })
+
+      await http(app)
+        .delete(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toEqual({ data: true })
+        })
+
+      expect(
+        await db.profileStatus.findUnique({ where: { profileId: profile.id } })
+      ).toBeNull()
+
+      return http(app)
+        .delete(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toEqual({ data: false })
+        })
+    })
+  })
+
+  describe('status expiry', () => {
+    it('should hide and sweep expired statuses', async () => {
+      const { user, tokens } = await createUser(app)
+      const profile = await db.profile.create({ data: { userId: user.id } })
+      await db.profileStatus.create({
+        data: {
+          content: faker.lorem.words(5),
+          clearInterval: StatusClearInterval.THIRTY_MINUTES,
+          expiresAt: new Date(Date.now() - 1000),
+          profileId: profile.id,
+        },
+      })
+
+      await http(app)
+        .get(`/users/@${user.username}`)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.status).toBeNull()
+        })
+
+      expect(await app.get(ProfileStatusService).sweep()).toBe(1)
+      expect(
+        await db.profileStatus.findUnique({ where: { profileId: profile.id } })
+      ).toBeNull()
+    })
+  })
 })
@@ -0,0 +1,124 @@
+import { HttpStatus, INestApplication } from '@nestjs/common'
+import {
+  createAdminUser,
+  createModeratorUser,
+  http,
+  resetsDatabaseAfterAll,
+  setupNestApp,
+} from 'test/helpers'
+import { Role } from '@prisma/client'
+import { Permission } from '~/enums/Permission'
+
+describe('RolesController (e2e)', () => {
+  let app: INestApplication
+
+  beforeAll(async () => {
+    app = await setupNestApp()
+  })
+
+  resetsDatabaseAfterAll(() => app)
+
+  describe('@GET /roles', () => {
+    const uri = '/roles'
+
+    it('should return the permissions of every role', async () => {
+      const { tokens } = await createAdminUser(app)
+
+      return http(app)
+        .get(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toEqual(
+            expect.arrayContaining([
+              {
+                role: Role.ADMIN,
+                permissions: Object.values(Permission),
+              },
+              {
+                role: Role.MODERATOR,
+                permissions: expect.arrayContaining([
+                  Permission.PostDeleteAny,
+                  Permission.CommentModerate,
+                ]),
+              },
+              { role: Role.USER, permissions: [] },
+            ])
+          )
+        })
+    })
+
+    it('should return 403 if operator is not an administrator', async () => {
+      const { tokens } = await createModeratorUser(app)
+
+      return http(app)
+        .get(uri)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.FORBIDDEN)
+    })
+  })
+
+  describe('@PUT /roles/:role', () => {
+    const uri = (role: string) => `/roles/${role}`
+
+    it('should replace the permissions of the role at once', async () => {
+      const { tokens } = await createAdminUser(app)
+
+      await http(app)
+        .put(uri(Role.USER))
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ permissions: [Permission.TagManage, Permission.TagManage] })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toEqual({
+            role: Role.USER,
+            permissions: [Permission.TagManage],
+          })
+        })
+
+      const { tokens: moderatorTokens } = await createModeratorUser(app)
+      await http(app)
+        .put(uri(Role.MODERATOR))
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ permissions: [] })
+        .expect(HttpStatus.OK)
+
+      return http(app)
+        .put('/tags/missing')
+        .auth(moderatorTokens.accessToken, { type: 'bearer' })
+        .send({ name: 'whatever' })
+        .expect(HttpStatus.FORBIDDEN)
+    })
+
+    it('should return 400 for the ADMIN role', async () => {
+      const { tokens } = await createAdminUser(app)
+
+      return http(app)
+        .put(uri(Role.ADMIN))
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ permissions: [] })
+        .expect(HttpStatus.BAD_REQUEST)
+        .then(({ body }) => {
+          expect(body.message).toBe(
+            'Administrators always hold all the permissions.'
+          )
+        })
+    })
+
+    it('should return 400 for an unknown role or permission', async () => {
+      const { tokens } = await createAdminUser(app)
+
+      await http(app)
+        .put(uri('OWNER'))
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ permissions: [] })
+        .expect(HttpStatus.BAD_REQUEST)
+
+      return http(app)
+        .put(uri(Role.USER))
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ permissions: ['post.publish.any'] })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+  })
+})
@@ -2,6 +2,7 @@ import { HttpStatus, INestApplication } from '@nestjs/common'
 import { DatabaseService } from '~/services/database.service'
 import {
   createAdminUser,
+  createModeratorUser,
   createUser,
   http,
   resetsDatabaseAfterAll,
@@ -11,8 +12,14 @@ import * as faker from 'faker'
 import { Role, User } from '@prisma/client'
 import { HashService } from '~/services/security/hash.service'
 import modelFactory from '~/core/model/model.factory'
-import { User as UserModel, UserClient } from '~/models/user.model'
+import { User as UserModel } from '~/models/user.model'
 import { map, shuffle } from 'lodash'
+import { MailService } from '~/services/mail/mail.service'
+import { ConfigService } from '@nestjs/config'
+import { AccountConfig, ConfigKey, MfaConfig } from '~/config/config.interface'
+import { PermissionService } from '~/services/users/permission.service'
+import { Permission } from '~/enums/Permission'
+import { deletedUser } from '~/types/user/user'
 
 const updateUserData = () => ({
   fullName: faker.name.findName(),
@@ -59,6 +66,31 @@ describe('UsersController (e2e)', () => {
         })
     })
 
+    it('should mail a set-password link if no password is given', async () => {
+      const { tokens } = await createAdminUser(app)
+      const { password, ...rest } = getFakerUser()
+      const send = jest.spyOn(app.get(MailService), 'send')
+
+      await http(app)
+        .post(uri)
+        .send(rest)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.CREATED)
+
+      expect(send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: rest.email,
+          subject: 'Set your password',
+        })
+      )
+      send.mockRestore()
+
+      return http(app)
+        .post('/auth/login')
+        .send({ email: rest.email, password })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+
     it("should return 403 if operator doesn't have the permission.", async () => {
       const { tokens } = await createUser(app)
       const user = getFakerUser()
@@ -343,6 +375,175 @@ describe('UsersController (e2e)', () => {
           expect(body.message).toBe("You don't have the permission")
         })
     })
+
+    it('should let a permitted moderator update roles except ADMIN', async () => {
+      const permissions = app.get(PermissionService)
+      await permissions.update(Role.MODERATOR, [
+        ...(await permissions.getPermissions(Role.MODERATOR)),
+        Permission.UserUpdateRole,
+      ])
+      const { tokens } = await createModeratorUser(app)
+      const { user } = await createUser(app)
+
+      await http(app)
+        .put(uri + user.id)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ role: Role.MODERATOR })
+        .expect(HttpStatus.OK)
+
+      return http(app)
+        .put(uri + user.id)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .send({ role: Role.ADMIN })
+        .expect(HttpStatus.FORBIDDEN)
+        .then(({ body }) => {
+          expect(body.message).toBe(
+            'Only administrators can grant or revoke the ADMIN role.'
+          )
+        })
+    })
+  })
+
+  describe('@DELETE /users/me', () => {
+    const uri = '/users/me'
+
+    const createContent = async (authorId: string) => {
+      const post = await db.post.create({
+        data: { title: 'title', published: true, authorId },
+      })
+      const comment = await db.comment.create({
+        data: { content: 'comment', postId: post.id, authorId },
+      })
+
+      return { post, comment }
+    }
+
+    it('should return 400 if the password is incorrect', async () => {
+      const { user, tokens } = await createUser(app)
+
+      await http(app)
+        .delete(uri)
+        .send({ password: 'incorrect' })
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.BAD_REQUEST)
+        .then(({ body }) => {
+          expect(body.message).toBe('Password is incorrect')
+        })
+
+      expect(
+        await db.user.findUnique({ where: { id: user.id } })
+      ).not.toBeNull()
+    })
+
+    it('should hand the content over to the deleted user placeholder', async () => {
+      const { user, tokens, password } = await createUser(app)
+      const { post, comment } = await createContent(user.id)
+
+      await http(app)
+        .delete(uri)
+        .send({ password })
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NO_CONTENT)
+
+      expect(await db.user.findUnique({ where: { id: user.id } })).toBeNull()
+      expect(
+        await db.post.findUnique({ where: { id: post.id } })
+      ).toMatchObject({ authorId: deletedUser.id })
+      expect(
+        await db.comment.findUnique({ where: { id: comment.id } })
+      ).toMatchObject({ authorId: deletedUser.id, content: 'comment' })
+
+      return http(app)
+        .get('/auth/me')
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it('should delete the content with the cascade strategy', async () => {
+      const config = app
+        .get(ConfigService)
+        .get<AccountConfig>(ConfigKey.Account)!
+      const { user, tokens, password } = await createUser(app)
+      const { user: other } = await createUser(app)
+      const { post } = await createContent(user.id)
+      const { post: otherPost } = await createContent(other.id)
+      const leaf = await db.comment.create({
+        data: { content: 'leaf', postId: otherPost.id, authorId: user.id },
+      })
+      const replied = await db.comment.create({
+        data: { content: 'replied', postId: otherPost.id, authorId: user.id },
+      })
+      await db.comment.create({
+        data: {
+          content: 'reply',
+          postId: otherPost.id,
+          authorId: other.id,
+          parentId: replied.id,
+        },
+      })
+      await db.reaction.createMany({
+        data: [
+          { postId: post.id, userId: other.id },
+          { commentId: leaf.id, userId: other.id },
+        ],
+      })
+      await db.view.createMany({
+        data: [
+          { postId: post.id, userId: other.id },
+          { commentId: leaf.id, userId: other.id },
+        ],
+      })
+      config.deletionStrategy = 'cascade'
+
+      try {
+        await http(app)
+          .delete(uri)
+          .send({ password })
+          .auth(tokens.accessToken, { type: 'bearer' })
+          .expect(HttpStatus.NO_CONTENT)
+      } finally {
+        config.deletionStrategy = 'anonymize'
+      }
+
+      expect(await db.post.findUnique({ where: { id: post.id } })).toBeNull()
+      expect(await db.comment.findUnique({ where: { id: leaf.id } })).toBeNull()
+      expect(
+        await db.comment.findUnique({ where: { id: replied.id } })
+      ).toMatchObject({ authorId: deletedUser.id, content: '[deleted]' })
+      expect(await db.reaction.count({ where: { userId: other.id } })).toBe(0)
+      expect(await db.view.count({ where: { userId: other.id } })).toBe(0)
+    })
+
+    it('should not let administrators change the placeholder', async () => {
+      const { tokens } = await createAdminUser(app)
+      const requests = [
+        http(app)
+          .put('/users/' + deletedUser.id)
+          .send(updateUserData()),
+        http(app)
+          .put('/users/password/' + deletedUser.id)
+          .send({ password: 'password' }),
+        http(app)
+          .put('/users/role/' + deletedUser.id)
+          .send({ role: Role.ADMIN }),
+        http(app).delete('/users/' + deletedUser.id),
+      ]
+
+      for (const req of requests) {
+        await req
+          .auth(tokens.accessToken, { type: 'bearer' })
+          .expect(HttpStatus.BAD_REQUEST)
+          .then(({ body }) => {
+            expect(body.message).toBe(
+              'The placeholder of deleted accounts cannot be changed.'
+            )
+          })
+      }
+
+      expect(
+        await db.user.findUnique({ where: { id: deletedUser.id } })
+      ).toMatchObject({ password: '', role: Role.USER, deletedAt: null })
+    })
   })
 
   describe('@DELETE /users/:id', () => {
@@ -352,15 +553,19 @@ describe('UsersController (e2e)', () => {
       const { tokens } = await createAdminUser(app)
       const user = await db.user.create({ data: getFakerUser() })
 
-      return http(app)
+      await http(app)
         .delete(uri + user.id)
         .auth(tokens.accessToken, { type: 'bearer' })
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject({
-            ...modelFactory.make(UserModel, user),
-          })
+          expect(body).toMatchObject({ id: user.id, email: user.email })
+          expect(body.deletedAt).not.toBeNull()
         })
+
+      return http(app)
+        .get(uri + user.id)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NOT_FOUND)
     })
 
     it("should return 403 if operator doesn't have the permission", async () => {
@@ -405,8 +610,69 @@ describe('UsersController (e2e)', () => {
         .expect(HttpStatus.OK)
         .then(({ body }) => {
           expect(body).toMatchObject({
-            ...modelFactory.make(UserClient, user),
+            id: user.id,
+            email: user.email,
+            username: user.username,
+            fullName: user.fullName,
+            isFollowing: false,
+          })
+          expect(body.password).toBeUndefined()
+        })
+    })
+
+    it('should return 200 with user summary', async () => {
+      const { user: follower, tokens } = await createUser(app)
+      const user = await db.user.create({
+        data: {
+          ...getFakerUser(),
+          followedBy: { connect: { id: follower.id } },
+          profile: {
+            create: {
+              bio: faker.lorem.words(5),
+              city: faker.address.city(),
+              status: { create: { content: faker.lorem.words(3) } },
+            },
+          },
+        },
+        include: { profile: { include: { status: true } } },
+      })
+      const post = await db.post.create({
+        data: {
+          title: faker.lorem.word(),
+          published: true,
+          authorId: user.id,
+        },
+      })
+      await db.post.create({
+        data: {
+          title: faker.lorem.word(),
+          published: false,
+          authorId: user.id,
+        },
+      })
+      await db.comment.create({
+        data: {
+          content: faker.lorem.words(5),
+          postId: post.id,
+          authorId: user.id,
+        },
+      })
+
+      return http(app)
+        .get(prefix + user.username)
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body).toMatchObject({
+            profile: { bio: user.profile!.bio, city: user.profile!.city },
+            status: { content: user.profile!.status!.content },
+            followerCount: 1,
+            followingCount: 0,
+            postCount: 1,
+            commentCount: 1,
+            isFollowing: true,
           })
+          expect(body.profile.userId).toBeUndefined()
         })
     })
 
@@ -425,7 +691,8 @@ describe('UsersController (e2e)', () => {
         .expect(HttpStatus.OK)
         .then(({ body }) => {
           expect(body).toMatchObject({
-            ...modelFactory.make(UserClient, user),
+            id: user.id,
+            username: user.username,
           })
         })
     })
@@ -442,6 +709,26 @@ describe('UsersController (e2e)', () => {
   describe('@GET /users/:id', () => {
     const uri = '/users/'
 
+    it('should return 403 for admins without 2FA when it is required', async () => {
+      const { tokens } = await createAdminUser(app)
+      const config = app.get(ConfigService).get<MfaConfig>(ConfigKey.Mfa)!
+      config.requiredForAdmins = true
+
+      try {
+        await http(app)
+          .get(uri + faker.datatype.uuid())
+          .auth(tokens.accessToken, { type: 'bearer' })
+          .expect(HttpStatus.FORBIDDEN)
+          .then(({ body }) => {
+            expect(body.message).toBe(
+              'Administrators must enable two-factor authentication.'
+            )
+          })
+      } finally {
+        config.requiredForAdmins = false
+      }
+    })
+
     it('should return 200 with user detail', async () => {
       const { tokens } = await createAdminUser(app)
       const user = await db.user.create({ data: getFakerUser() })
@@ -471,6 +758,109 @@ describe('UsersController (e2e)', () => {
     })
   })
 
+  describe('@POST /users/:id/unlock', () => {
+    const uri = (id: string) => `/users/${id}/unlock`
+
+    it('should unlock a locked out user', async () => {
+      const { tokens } = await createAdminUser(app)
+      const { user, password } = await createUser(app)
+      await db.loginThrottle.create({
+        data: {
+          key: `email:${user.email.toLowerCase()}`,
+          attempts: 10,
+          lockedUntil: new Date(Date.now() + 60 * 1000),
+        },
+      })
+
+      await http(app)
+        .post('/auth/login')
+        .send({ email: user.email, password })
+        .expect(HttpStatus.TOO_MANY_REQUESTS)
+
+      await http(app)
+        .post(uri(user.id))
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NO_CONTENT)
+
+      return http(app)
+        .post('/auth/login')
+        .send({ email: user.email, password })
+        .expect(HttpStatus.CREATED)
+    })
+
+    it('should return 404 if the user does not exist', async () => {
+      const { tokens } = await createAdminUser(app)
+
+      return http(app)
+        .post(uri(faker.datatype.uuid()))
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NOT_FOUND)
+    })
+  })
+
+  describe('@GET /users/:id/sessions', () => {
+    const uri = (id: string) => `/users/${id}/sessions`
+
+    it("should return 200 with the user's active sessions", async () => {
+      const { tokens } = await createAdminUser(app)
+      const { user } = await createUser(app)
+
+      return http(app)
+        .get(uri(user.id))
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toHaveLength(1)
+          expect(body.items[0]).toMatchObject({ userId: user.id })
+        })
+    })
+
+    it('should return 403 if operator does not have the permission', async () => {
+      const { user, tokens } = await createUser(app)
+
+      return http(app)
+        .get(uri(user.id))
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.FORBIDDEN)
+    })
+  })
+
+  describe('@DELETE /users/:id/sessions/:sessionId', () => {
+    const uri = (id: string, sessionId: string) =>
+      `/users/${id}/sessions/${sessionId}`
+
+    it("should end the user's session", async () => {
+      const { tokens } = await createAdminUser(app)
+      const { user, tokens: userTokens } = await createUser(app)
+      const session = await db.session.findFirst({
+        where: { userId: user.id },
+      })
+
+      await http(app)
+        .delete(uri(user.id, session!.id))
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NO_CONTENT)
+
+      return http(app)
+        .get('/auth/me')
+        .auth(userTokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it('should return 404 if the session does not belong to the user', async () => {
+      const { user: admin, tokens } = await createAdminUser(app)
+      const { user } = await createUser(app)
+      const session = await db.session.findFirst({
+        where: { userId: user.id },
+      })
+
+      return http(app)
+        .delete(uri(admin.id, session!.id))
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.NOT_FOUND)
+    })
+  })
+
   describe('@GET /users', () => {
     const uri = '/users'
 
@@ -495,7 +885,41 @@ describe('UsersController (e2e)', () => {
         .auth(tokens.accessToken, { type: 'bearer' })
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject(checkUsers.reverse())
+          expect(body.items).toMatchObject(checkUsers.reverse())
+          expect(body.hasMore).toBe(false)
+        })
+    })
+
+    it('should page users with the cursor', async () => {
+      await db.user.deleteMany()
+      const { user, tokens } = await createAdminUser(app)
+      const second = await db.user.create({ data: getFakerUser() })
+      const third = await db.user.create({ data: getFakerUser() })
+
+      const nextCursor = await http(app)
+        .get(uri)
+        .query({ limit: 2 })
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toMatchObject([
+            { id: third.id },
+            { id: second.id },
+          ])
+          expect(body.items[0].password).toBeUndefined()
+          expect(body).toMatchObject({ nextCursor: second.id, hasMore: true })
+
+          return body.nextCursor
+        })
+
+      return http(app)
+        .get(uri)
+        .query({ limit: 2, cursor: nextCursor })
+        .auth(tokens.accessToken, { type: 'bearer' })
+        .expect(HttpStatus.OK)
+        .then(({ body }) => {
+          expect(body.items).toMatchObject([{ id: user.id }])
+          expect(body.hasMore).toBe(false)
         })
     })
 
@@ -538,7 +962,7 @@ describe('UsersController (e2e)', () => {
         })
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject([
+          expect(body.items).toMatchObject([
             {
               ...modelFactory.make(UserModel, checkUser),
             },
@@ -553,7 +977,7 @@ describe('UsersController (e2e)', () => {
         })
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject([
+          expect(body.items).toMatchObject([
             {
               ...modelFactory.make(UserModel, checkUser),
             },
@@ -568,7 +992,7 @@ describe('UsersController (e2e)', () => {
         })
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject([
+          expect(body.items).toMatchObject([
             {
               ...modelFactory.make(UserModel, checkUser),
             },
@@ -584,7 +1008,7 @@ describe('UsersController (e2e)', () => {
         })
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject([
+          expect(body.items).toMatchObject([
             {
               ...modelFactory.make(UserModel, checkUser),
             },
@@ -600,7 +1024,7 @@ describe('UsersController (e2e)', () => {
         })
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject([
+          expect(body.items).toMatchObject([
             {
               ...modelFactory.make(UserModel, checkUser),
             },
@@ -624,7 +1048,7 @@ describe('UsersController (e2e)', () => {
         })
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject([])
+          expect(body.items).toMatchObject([])
         })
 
       await http(app)
@@ -635,7 +1059,7 @@ describe('UsersController (e2e)', () => {
         })
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject([])
+          expect(body.items).toMatchObject([])
         })
     })
 
@@ -655,7 +1079,7 @@ describe('UsersController (e2e)', () => {
         })
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject([])
+          expect(body.items).toMatchObject([])
         })
 
       await http(app)
@@ -666,7 +1090,7 @@ describe('UsersController (e2e)', () => {
         })
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject([])
+          expect(body.items).toMatchObject([])
         })
     })
 
@@ -686,7 +1110,7 @@ describe('UsersController (e2e)', () => {
         })
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject([])
+          expect(body.items).toMatchObject([])
         })
 
       await http(app)
@@ -697,7 +1121,7 @@ describe('UsersController (e2e)', () => {
         })
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject([])
+          expect(body.items).toMatchObject([])
         })
     })
 
@@ -715,7 +1139,7 @@ describe('UsersController (e2e)', () => {
         .query({})
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject([])
+          expect(body.items).toMatchObject([])
         })
 
       await http(app)
@@ -723,7 +1147,7 @@ describe('UsersController (e2e)', () => {
         .auth(tokens.accessToken, { type: 'bearer' })
         .expect(HttpStatus.OK)
         .then(({ body }) => {
-          expect(body).toMatchObject([])
+          expect(body.items).toMatchObject([])
         })
     })
 